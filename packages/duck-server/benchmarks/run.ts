@@ -19,6 +19,7 @@ export type Framework = {
   name: 'duck' | 'trpc'
   port: number
   entry: string
+  /** Whether the framework speaks the binary formats (CBOR, MessagePack). */
   supportsCbor: boolean
 }
 
@@ -128,8 +129,8 @@ const frameworks = [
 
 // Filter scenarios based on framework capabilities
 const validScenarios = scenarios.filter((scenario) => {
-  if (scenario.format === 'cbor' && !frameworks.some((f) => f.supportsCbor && f.name === 'duck')) {
-    // Only include CBOR scenarios if Duck is being tested
+  if (isBinaryFormat(scenario) && !frameworks.some((f) => f.supportsCbor && f.name === 'duck')) {
+    // Only include CBOR and MessagePack scenarios if Duck is being tested
     return frameworks.some((f) => f.name === 'duck')
   }
   // tRPC doesn't support custom validation libraries in the same way
@@ -167,8 +168,8 @@ for (const framework of frameworks) {
   const server = await spawnServer(framework)
   try {
     for (const scenario of validScenarios) {
-      // Skip CBOR for tRPC
-      if (scenario.format === 'cbor' && framework.name === 'trpc') continue
+      // Skip CBOR and MessagePack for tRPC
+      if (isBinaryFormat(scenario) && framework.name === 'trpc') continue
       // Skip custom validators for tRPC
       if (
         scenario.validation &&
@@ -423,6 +424,10 @@ function matchesFilter(filter: Set<string> | null, value: string): boolean {
   return filter.has(value)
 }
 
+function isBinaryFormat(scenario: Scenario): boolean {
+  return scenario.format === 'cbor' || scenario.format === 'msgpack'
+}
+
 async function runAutocannon(options: autocannon.Options): Promise<autocannon.Result> {
   return await new Promise((resolve, reject) => {
     autocannon(options, (err, result) => {
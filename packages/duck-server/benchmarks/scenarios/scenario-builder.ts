@@ -10,7 +10,7 @@ import type { BenchInput } from './payloads/payload-generators'
 /**
  * Serialization format for requests/responses.
  */
-export type SerializationFormat = 'json' | 'cbor'
+export type SerializationFormat = 'json' | 'cbor' | 'msgpack'
 
 /**
  * Validation library used for input validation.
@@ -63,6 +63,7 @@ export function buildScenarios(payloads: {
       validation: 'none',
     },
     { name: 'tiny-cbor-zod', path: 'heavy', payload: payloads.tiny, format: 'cbor', validation: 'zod' },
+    { name: 'tiny-msgpack-zod', path: 'heavy', payload: payloads.tiny, format: 'msgpack', validation: 'zod' },
 
     // Small payloads
     { name: 'small-json-zod', path: 'heavy', payload: payloads.small, format: 'json', validation: 'zod' },
@@ -88,6 +89,7 @@ export function buildScenarios(payloads: {
       validation: 'none',
     },
     { name: 'small-cbor-zod', path: 'heavy', payload: payloads.small, format: 'cbor', validation: 'zod' },
+    { name: 'small-msgpack-zod', path: 'heavy', payload: payloads.small, format: 'msgpack', validation: 'zod' },
 
     // Medium payloads
     { name: 'medium-json-zod', path: 'heavy', payload: payloads.medium, format: 'json', validation: 'zod' },
@@ -99,6 +101,7 @@ export function buildScenarios(payloads: {
       validation: 'none',
     },
     { name: 'medium-cbor-zod', path: 'heavy', payload: payloads.medium, format: 'cbor', validation: 'zod' },
+    { name: 'medium-msgpack-zod', path: 'heavy', payload: payloads.medium, format: 'msgpack', validation: 'zod' },
 
     // Large payloads
     { name: 'large-json-zod', path: 'heavy', payload: payloads.large, format: 'json', validation: 'zod' },
@@ -110,6 +113,7 @@ export function buildScenarios(payloads: {
       validation: 'none',
     },
     { name: 'large-cbor-zod', path: 'heavy', payload: payloads.large, format: 'cbor', validation: 'zod' },
+    { name: 'large-msgpack-zod', path: 'heavy', payload: payloads.large, format: 'msgpack', validation: 'zod' },
 
     // Extra large payloads
     { name: 'xlarge-json-zod', path: 'heavy', payload: payloads.xlarge, format: 'json', validation: 'zod' },
@@ -121,6 +125,7 @@ export function buildScenarios(payloads: {
       validation: 'none',
     },
     { name: 'xlarge-cbor-zod', path: 'heavy', payload: payloads.xlarge, format: 'cbor', validation: 'zod' },
+    { name: 'xlarge-msgpack-zod', path: 'heavy', payload: payloads.xlarge, format: 'msgpack', validation: 'zod' },
 
     // XXL payloads
     { name: 'xxlarge-json-zod', path: 'heavy', payload: payloads.xxlarge, format: 'json', validation: 'zod' },
@@ -132,6 +137,7 @@ export function buildScenarios(payloads: {
       validation: 'none',
     },
     { name: 'xxlarge-cbor-zod', path: 'heavy', payload: payloads.xxlarge, format: 'cbor', validation: 'zod' },
+    { name: 'xxlarge-msgpack-zod', path: 'heavy', payload: payloads.xxlarge, format: 'msgpack', validation: 'zod' },
   ]
 
   return scenarios
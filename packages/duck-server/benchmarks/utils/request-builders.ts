@@ -6,8 +6,8 @@
  */
 
 import { encode as cborEncode } from 'cbor-x'
-import { CBOR_CONTENT_TYPE } from '../../src/server/serialization/codec'
-import type { BenchmarkScenario } from '../scenarios/scenario-builder'
+import { CBOR_CONTENT_TYPE, MSGPACK_CONTENT_TYPE, msgpackCodec } from '../../src/server/serialization/codec'
+import type { BenchmarkScenario, SerializationFormat } from '../scenarios/scenario-builder'
 
 export type RequestConfig = {
   url: string
@@ -27,7 +27,7 @@ export type RequestConfig = {
 export function buildDuckRequest(
   baseUrl: string,
   scenario: BenchmarkScenario,
-  format: 'json' | 'cbor' = 'json',
+  format: SerializationFormat = 'json',
 ): RequestConfig {
   const url = `${baseUrl}/rpc/${scenario.path}`
   const envelope = { type: 'query', input: scenario.payload }
@@ -44,6 +44,18 @@ export function buildDuckRequest(
     }
   }
 
+  if (format === 'msgpack') {
+    return {
+      url,
+      method: 'POST',
+      headers: {
+        'content-type': MSGPACK_CONTENT_TYPE,
+        accept: MSGPACK_CONTENT_TYPE,
+      },
+      body: msgpackCodec.encode(envelope) as Buffer,
+    }
+  }
+
   return {
     url,
     method: 'POST',
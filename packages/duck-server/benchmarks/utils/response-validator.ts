@@ -5,7 +5,8 @@
  */
 
 import { decode as cborDecode } from 'cbor-x'
-import { CBOR_CONTENT_TYPE } from '../../src/server/serialization/codec'
+import { CBOR_CONTENT_TYPE, MSGPACK_CONTENT_TYPE, msgpackCodec } from '../../src/server/serialization/codec'
+import type { SerializationFormat } from '../scenarios/scenario-builder'
 
 export type ValidationResult = {
   success: boolean
@@ -23,10 +24,10 @@ export type ValidationResult = {
  *
  * Success criteria:
  * 1. HTTP status is 2xx
- * 2. Response can be decoded (JSON/CBOR) without throwing
+ * 2. Response can be decoded (JSON/CBOR/MessagePack) without throwing
  * 3. Decoded body matches expected shape: { ok: boolean, data?: any, code?: string }
  */
-export async function validateDuckResponse(res: Response, format: 'json' | 'cbor'): Promise<ValidationResult> {
+export async function validateDuckResponse(res: Response, format: SerializationFormat): Promise<ValidationResult> {
   const contentType = res.headers.get('content-type')?.toLowerCase() ?? ''
   const httpStatus = res.status
 
@@ -52,6 +53,10 @@ export async function validateDuckResponse(res: Response, format: 'json' | 'cbor
       const buf = await res.arrayBuffer()
       responseSizeBytes = buf.byteLength
       decodedBody = cborDecode(new Uint8Array(buf))
+    } else if (format === 'msgpack' || contentType.includes(MSGPACK_CONTENT_TYPE)) {
+      const buf = await res.arrayBuffer()
+      responseSizeBytes = buf.byteLength
+      decodedBody = msgpackCodec.decode(new Uint8Array(buf))
     } else {
       const text = await res.text()
       responseSizeBytes = new TextEncoder().encode(text).length
@@ -0,0 +1,122 @@
+/**
+ * Tests for auth refresh.
+ *
+ * Covers:
+ * - Refreshing once and replaying concurrent calls
+ * - Queueing calls made during a refresh
+ * - Failed refreshes
+ * - Calls that stay unauthorized
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { createRPCClient } from '../low-level-client'
+import { errorResponse, okResponse } from './responses'
+
+/** Fake server accepting only `authorization: Bearer <token>`, answering with the request path. */
+const createServer = (token: { current: string }) =>
+  vi.fn(async (url: string, init: RequestInit) => {
+    const headers = init.headers as Record<string, string>
+    if (headers.authorization !== `Bearer ${token.current}`)
+      return errorResponse('RPC_UNAUTHORIZED', { message: 'Token expired' })
+    return okResponse(new URL(url).pathname)
+  })
+
+const deferred = <T>() => {
+  let resolve!: (value: T) => void
+  let reject!: (reason: unknown) => void
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res
+    reject = rej
+  })
+  return { promise, resolve, reject }
+}
+
+describe('createRPCClient refreshAuth', () => {
+  it('should refresh once and replay every call that failed', async () => {
+    const token = { current: 'new' }
+    const server = createServer(token)
+    const refreshAuth = vi.fn(async () => ({ authorization: 'Bearer new' }))
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      headers: { authorization: 'Bearer old' },
+      fetch: server as never as typeof fetch,
+      refreshAuth,
+    })
+
+    const results = await Promise.all([client.query('a'), client.query('b'), client.mutation('c', {})])
+
+    expect(results.map((res) => res.ok && res.data)).toEqual(['/rpc/a', '/rpc/b', '/rpc/c'])
+    expect(refreshAuth).toHaveBeenCalledTimes(1)
+    expect(server).toHaveBeenCalledTimes(6)
+
+    await client.query('d')
+    expect(server).toHaveBeenCalledTimes(7)
+  })
+
+  it('should hold calls made during a refresh until it settles', async () => {
+    const token = { current: 'new' }
+    const server = createServer(token)
+    const refresh = deferred<Record<string, string>>()
+    const refreshAuth = vi.fn(() => refresh.promise)
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: server as never as typeof fetch,
+      refreshAuth,
+    })
+
+    const first = client.query('a')
+    await vi.waitFor(() => expect(refreshAuth).toHaveBeenCalled())
+    const queued = client.query('b')
+    await Promise.resolve()
+    expect(server).toHaveBeenCalledTimes(1)
+
+    refresh.resolve({ authorization: 'Bearer new' })
+
+    expect((await first).ok).toBe(true)
+    expect((await queued).ok).toBe(true)
+    expect(server).toHaveBeenCalledTimes(3)
+  })
+
+  it('should fail every waiting call with an error result when the refresh fails', async () => {
+    const server = createServer({ current: 'new' })
+    const refresh = deferred<Record<string, string>>()
+    const refreshAuth = vi.fn(() => refresh.promise)
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: server as never as typeof fetch,
+      refreshAuth,
+    })
+
+    const failed = [client.query('a'), client.mutation('b', {})]
+    await vi.waitFor(() => expect(refreshAuth).toHaveBeenCalled())
+    const queued = client.query('c')
+    refresh.reject(new Error('session revoked'))
+
+    const results = await Promise.all([...failed, queued])
+
+    for (const res of results) {
+      expect(res).toEqual({
+        ok: false,
+        code: 'RPC_UNAUTHORIZED',
+        error: { code: 'RPC_UNAUTHORIZED', message: 'Auth refresh failed: session revoked', issues: [] },
+      })
+    }
+    expect(server).toHaveBeenCalledTimes(2)
+  })
+
+  it('should return the replayed result when the call is still unauthorized', async () => {
+    const server = createServer({ current: 'never' })
+    const refreshAuth = vi.fn(async () => ({ authorization: 'Bearer new' }))
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: server as never as typeof fetch,
+      refreshAuth,
+    })
+
+    const res = await client.query('a')
+
+    expect(res.code).toBe('RPC_UNAUTHORIZED')
+    expect(refreshAuth).toHaveBeenCalledTimes(1)
+    expect(server).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,174 @@
+/**
+ * Tests for the throwing client mode.
+ *
+ * Covers:
+ * - Resolving with data
+ * - RPCClientError fields
+ * - HTTP statuses
+ * - isRPCClientError guard
+ * - Unexpected bodies
+ * - Proxy client typing
+ */
+
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import { z } from 'zod'
+import { createRPCError } from '../../server/core/error'
+import { initRPC } from '../../server/core/init'
+import { RPCRes as R } from '../../server/core/response'
+import { fetchRequestHandler } from '../../server/http/fetch'
+import { isRPCClientError, type RPCClientError } from '../error'
+import { createRPCClient } from '../low-level-client'
+import { createRPCProxyClient } from '../proxy-client'
+import { errorResponse, jsonResponse, okResponse } from './responses'
+
+/** Await a promise expected to reject and return the reason. */
+const rejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise
+  } catch (error) {
+    return error
+  }
+  throw new Error('Expected the call to reject')
+}
+
+describe("createRPCClient mode: 'throw'", () => {
+  it('should resolve with data', async () => {
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: vi.fn().mockResolvedValue(okResponse({ id: 1 })) as never as typeof fetch,
+      mode: 'throw',
+    })
+
+    const data = await client.query<{ id: number }>('user.get')
+
+    expectTypeOf(data).toEqualTypeOf<{ id: number }>()
+    expect(data).toEqual({ id: 1 })
+  })
+
+  it('should throw an RPCClientError carrying the code, issues, status and path', async () => {
+    const issues = [{ message: 'Required', path: ['name'] }]
+    const body = { ok: false, code: 'RPC_BAD_REQUEST', error: { code: 'RPC_BAD_REQUEST', message: 'Invalid', issues } }
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: vi.fn().mockResolvedValue(jsonResponse(body)) as never as typeof fetch,
+      mode: 'throw',
+    })
+
+    const error = await rejection(client.mutation('user.create', {}))
+
+    expect(isRPCClientError(error)).toBe(true)
+    expect(error).toMatchObject({
+      name: 'RPCClientError',
+      message: 'Invalid',
+      code: 'RPC_BAD_REQUEST',
+      issues,
+      status: 400,
+      path: 'user.create',
+      result: body,
+    })
+  })
+
+  it('should use registered statuses and declared error data', async () => {
+    const t = initRPC().codes({ RPC_CARD_DECLINED: 402 }).create()
+    const router = t.router({
+      pay: t
+        .procedure()
+        .errors({ CARD_DECLINED: z.object({ reason: z.string() }) })
+        .mutation(async ({ errors }) => {
+          throw errors.CARD_DECLINED({ reason: 'expired' })
+        }),
+    })
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: ((url: string, init?: RequestInit) =>
+        fetchRequestHandler({ router, createContext: () => ({}), req: new Request(url, init) })) as typeof fetch,
+      mode: 'throw',
+    })
+
+    const error = (await rejection(client.mutation('pay'))) as RPCClientError
+
+    expect(error.status).toBe(402)
+    expect(error.data).toEqual({ reason: 'expired' })
+  })
+
+  it('should report the HTTP status of the response', async () => {
+    const code = 'RPC_CARD_DECLINED'
+    const body = { ok: false, code, error: { code, message: 'Declined', issues: [] } }
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: vi
+        .fn()
+        .mockResolvedValue(
+          new Response(JSON.stringify(body), { status: 402, headers: { 'content-type': 'application/json' } }),
+        ) as never as typeof fetch,
+      mode: 'throw',
+    })
+
+    await expect(client.mutation('pay', {})).rejects.toMatchObject({ code, status: 402 })
+  })
+
+  it('should fall back to the status of the code without a response', async () => {
+    const code = 'RPC_NOT_FOUND'
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: vi.fn().mockResolvedValue(okResponse(1)) as never as typeof fetch,
+      interceptors: [{ onRequest: async () => ({ ok: false, code, error: { code, message: 'Gone', issues: [] } }) }],
+      mode: 'throw',
+    })
+
+    await expect(client.query('user.get')).rejects.toMatchObject({ code, status: 404 })
+  })
+
+  it('should throw for bodies that are not results', async () => {
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: vi.fn().mockResolvedValue(new Response('<html>Bad Gateway</html>')) as never as typeof fetch,
+      mode: 'throw',
+    })
+
+    await expect(client.query('user.get')).rejects.toMatchObject({ code: 'RPC_BAD_GATEWAY', status: 502 })
+  })
+
+  it('should resolve with results by default', async () => {
+    const code = 'RPC_NOT_FOUND'
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: vi.fn().mockResolvedValue(errorResponse(code, { message: 'x' })) as never,
+    })
+
+    expect((await client.query('missing')).ok).toBe(false)
+  })
+})
+
+describe('isRPCClientError', () => {
+  it('should tell client errors apart from server errors', () => {
+    expect(isRPCClientError(createRPCError({ code: 'RPC_NOT_FOUND' }))).toBe(false)
+    expect(isRPCClientError(new Error('plain'))).toBe(false)
+    expect(isRPCClientError({ name: 'RPCClientError', code: 'RPC_NOT_FOUND' })).toBe(false)
+  })
+})
+
+describe("createRPCProxyClient mode: 'throw'", () => {
+  it('should type calls by procedure output', async () => {
+    const t = initRPC().create()
+    const router = t.router({
+      user: t.router({
+        get: t
+          .procedure()
+          .input(z.object({ id: z.number() }))
+          .query(async ({ input }) => R.ok({ id: input.id, name: 'Ada' }, 'RPC_OK')),
+      }),
+    })
+    const client = createRPCProxyClient<typeof router, 'throw'>({
+      baseUrl: 'http://localhost',
+      fetch: ((url: string, init?: RequestInit) =>
+        fetchRequestHandler({ router, createContext: () => ({}), req: new Request(url, init) })) as typeof fetch,
+      mode: 'throw',
+    })
+
+    const user = await client.user.get.query({ id: 7 })
+
+    expectTypeOf(user).toEqualTypeOf<{ id: number; name: string }>()
+    expect(user).toEqual({ id: 7, name: 'Ada' })
+  })
+})
@@ -0,0 +1,164 @@
+/**
+ * Tests for client interceptors.
+ *
+ * Covers:
+ * - Chain order
+ * - Changing calls and results
+ * - Short-circuiting
+ * - Replaying calls
+ * - Interceptors around retries
+ * - Proxy client
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { initRPC } from '../../server/core/init'
+import { RPCRes as R } from '../../server/core/response'
+import { createRouter } from '../../server/core/router'
+import { fetchRequestHandler } from '../../server/http/fetch'
+import type { ClientInterceptor } from '../interceptor'
+import { createRPCClient } from '../low-level-client'
+import { createRPCProxyClient } from '../proxy-client'
+import { errorResponse, okResponse } from './responses'
+
+describe('createRPCClient interceptors', () => {
+  it('should run interceptors in order, the first one outermost', async () => {
+    const order: string[] = []
+    const trace = (name: string): ClientInterceptor => ({
+      onRequest: async (_call, next) => {
+        order.push(`${name}:before`)
+        const res = await next()
+        order.push(`${name}:after`)
+        return res
+      },
+    })
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: vi.fn().mockResolvedValue(okResponse()) as never as typeof fetch,
+      interceptors: [trace('a'), trace('b')],
+    })
+
+    await client.query('report')
+
+    expect(order).toEqual(['a:before', 'b:before', 'b:after', 'a:after'])
+  })
+
+  it('should send the call an interceptor hands to next', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(okResponse())
+    const seen: unknown[] = []
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      headers: { 'x-app': 'web' },
+      fetch: fetchMock as never as typeof fetch,
+      interceptors: [
+        {
+          onRequest: (call, next) => {
+            seen.push({ path: call.path, type: call.type, input: call.input, headers: call.headers })
+            return next({ ...call, input: { id: 2 }, headers: { ...call.headers, authorization: 'Bearer t' } })
+          },
+        },
+      ],
+    })
+
+    await client.mutation('user.update', { id: 1 }, { headers: { 'x-trace': '1' } })
+
+    expect(seen).toEqual([
+      { path: 'user.update', type: 'mutation', input: { id: 1 }, headers: { 'x-app': 'web', 'x-trace': '1' } },
+    ])
+    const [, init] = fetchMock.mock.calls[0] ?? []
+    expect(init.headers).toMatchObject({ 'x-app': 'web', 'x-trace': '1', authorization: 'Bearer t' })
+    expect(JSON.parse(init.body)).toEqual({ type: 'mutation', input: { id: 2 } })
+  })
+
+  it('should let interceptors transform and short-circuit results', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(okResponse(1))
+    const cache = new Map<string, unknown>([['cached', 'hit']])
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: fetchMock as never as typeof fetch,
+      interceptors: [
+        {
+          onRequest: async (call, next) => (cache.has(call.path) ? R.ok(cache.get(call.path), 'RPC_OK') : next()),
+        },
+        {
+          onRequest: async (_call, next) => {
+            const res = await next()
+            return res.ok ? { ...res, data: { wrapped: res.data } } : res
+          },
+        },
+      ],
+    })
+
+    expect(await client.query('cached')).toEqual({ ok: true, data: 'hit', code: 'RPC_OK' })
+    expect(fetchMock).not.toHaveBeenCalled()
+    expect(await client.query('fresh')).toEqual({ ok: true, data: { wrapped: 1 }, code: 'RPC_OK' })
+  })
+
+  it('should replay a call when next is called again', async () => {
+    const code = 'RPC_CONFLICT'
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(errorResponse(code, { message: 'stale' }))
+      .mockResolvedValueOnce(okResponse())
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: fetchMock as never as typeof fetch,
+      interceptors: [
+        {
+          onRequest: async (call, next) => {
+            const res = await next()
+            return res.ok ? res : next({ ...call, headers: { ...call.headers, 'if-match': '*' } })
+          },
+        },
+      ],
+    })
+
+    const res = await client.mutation('doc.save', {})
+
+    expect(res.ok).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(fetchMock.mock.calls[1]?.[1].headers['if-match']).toBe('*')
+  })
+
+  it('should wrap the whole retry loop once', async () => {
+    const code = 'RPC_SERVICE_UNAVAILABLE'
+    const fetchMock = vi.fn().mockResolvedValueOnce(errorResponse(code)).mockResolvedValueOnce(okResponse())
+    const onRequest = vi.fn((_call, next) => next())
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: fetchMock as never as typeof fetch,
+      retry: { baseDelayMs: 1 },
+      interceptors: [{ onRequest }],
+    })
+
+    const res = await client.query('report')
+
+    expect(res.ok).toBe(true)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+    expect(onRequest).toHaveBeenCalledTimes(1)
+  })
+
+  it('should take the same chain in the proxy client', async () => {
+    const t = initRPC<{ user?: string }>().create()
+    const router = createRouter({
+      me: t.procedure().query(async ({ ctx }) => R.ok(ctx.user ?? null, 'RPC_OK')),
+    })
+    const serverFetch = (url: string | URL | Request, init?: RequestInit) => {
+      const req = new Request(url, init)
+      return fetchRequestHandler({
+        router,
+        createContext: () => ({ user: req.headers.get('authorization') ?? undefined }),
+        req,
+      })
+    }
+
+    const client = createRPCProxyClient<typeof router>({
+      baseUrl: 'http://localhost',
+      fetch: serverFetch as typeof fetch,
+      interceptors: [
+        { onRequest: (call, next) => next({ ...call, headers: { ...call.headers, authorization: 'ada' } }) },
+      ],
+    })
+
+    expect(await client.me.query(undefined)).toEqual({ ok: true, data: 'ada', code: 'RPC_OK' })
+  })
+})
@@ -7,9 +7,18 @@
  * - Mutation calls
  * - Format handling
  * - Error handling
+ * - Request batching
+ * - Custom codecs
+ * - Compressed responses
+ * - Timeouts and deadlines
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { createProcedure } from '../../server/core/procedure'
+import { RPCRes as R } from '../../server/core/response'
+import { createRouter } from '../../server/core/router'
+import { fetchRequestHandler } from '../../server/http/fetch'
+import type { Codec } from '../../server/serialization/codec'
 import { createRPCClient } from '../low-level-client'
 
 describe('createRPCClient', () => {
@@ -124,3 +133,322 @@ describe('createRPCClient', () => {
     }
   })
 })
+
+describe('createRPCClient batching', () => {
+  const jsonResponse = (body: unknown) =>
+    new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json' } })
+
+  it('should coalesce calls from the same tick into one request', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      jsonResponse([
+        { ok: true, data: 1, code: 'RPC_OK' },
+        { ok: true, data: 2, code: 'RPC_OK' },
+      ]),
+    )
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      batch: {},
+      fetch: mockFetch as never as typeof fetch,
+    })
+
+    const [a, b] = await Promise.all([client.query('a'), client.query('b', { id: 2 })])
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    const url = new URL(mockFetch.mock.calls[0]![0] as string)
+    expect(url.pathname).toBe('/rpc')
+    expect(url.searchParams.get('batch')).toBe('1')
+    expect(JSON.parse(url.searchParams.get('input')!)).toEqual([{ path: 'a' }, { path: 'b', input: { id: 2 } }])
+    expect(a).toEqual({ ok: true, data: 1, code: 'RPC_OK' })
+    expect(b).toEqual({ ok: true, data: 2, code: 'RPC_OK' })
+  })
+
+  it('should POST batches that contain mutations', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(
+      jsonResponse([
+        { ok: true, data: 'q', code: 'RPC_OK' },
+        { ok: false, code: 'RPC_CONFLICT', error: { code: 'RPC_CONFLICT', message: 'Taken', issues: [] } },
+      ]),
+    )
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      batch: {},
+      fetch: mockFetch as never as typeof fetch,
+    })
+
+    const [q, m] = await Promise.all([client.query('q'), client.mutation('m', { name: 'x' })])
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    const [url, init] = mockFetch.mock.calls[0]!
+    expect(url).toBe('http://localhost/rpc')
+    expect(init.method).toBe('POST')
+    expect(JSON.parse(init.body)).toEqual([
+      { path: 'q', type: 'query' },
+      { path: 'm', type: 'mutation', input: { name: 'x' } },
+    ])
+    expect(q.ok).toBe(true)
+    expect(m.ok).toBe(false)
+  })
+
+  it('should split batches by maxItems', async () => {
+    const mockFetch = vi.fn().mockImplementation(async (url: string) => {
+      const items = JSON.parse(new URL(url).searchParams.get('input')!) as unknown[]
+      return jsonResponse(items.map(() => ({ ok: true, data: null, code: 'RPC_OK' })))
+    })
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      batch: { maxItems: 2 },
+      fetch: mockFetch as never as typeof fetch,
+    })
+
+    await Promise.all([client.query('a'), client.query('b'), client.query('c')])
+
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+  })
+
+  it('should fall back to POST when the query URL is too long', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse([{ ok: true, data: null, code: 'RPC_OK' }]))
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      batch: { maxUrlLength: 40 },
+      fetch: mockFetch as never as typeof fetch,
+    })
+
+    await client.query('a', { text: 'a long enough input to overflow the url' })
+
+    expect(mockFetch.mock.calls[0]![1].method).toBe('POST')
+  })
+
+  it('should wait for windowMs before flushing', async () => {
+    vi.useFakeTimers()
+    try {
+      const mockFetch = vi.fn().mockResolvedValue(
+        jsonResponse([
+          { ok: true, data: 1, code: 'RPC_OK' },
+          { ok: true, data: 2, code: 'RPC_OK' },
+        ]),
+      )
+      const client = createRPCClient({
+        baseUrl: 'http://localhost',
+        batch: { windowMs: 10 },
+        fetch: mockFetch as never as typeof fetch,
+      })
+
+      const first = client.query('a')
+      await vi.advanceTimersByTimeAsync(5)
+      const second = client.query('b')
+      await vi.advanceTimersByTimeAsync(10)
+
+      await Promise.all([first, second])
+      expect(mockFetch).toHaveBeenCalledTimes(1)
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should drop only the aborted call from a batch', async () => {
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse([{ ok: true, data: 'kept', code: 'RPC_OK' }]))
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      batch: {},
+      fetch: mockFetch as never as typeof fetch,
+    })
+
+    const controller = new AbortController()
+    const aborted = client.query('dropped', undefined, { signal: controller.signal })
+    const kept = client.query('kept')
+    controller.abort()
+
+    await expect(aborted).rejects.toBeDefined()
+    await expect(kept).resolves.toEqual({ ok: true, data: 'kept', code: 'RPC_OK' })
+    const url = new URL(mockFetch.mock.calls[0]![0] as string)
+    expect(JSON.parse(url.searchParams.get('input')!)).toEqual([{ path: 'kept' }])
+  })
+
+  it('should hand a whole-batch error to every call', async () => {
+    const error = { ok: false, code: 'RPC_PAYLOAD_TOO_LARGE', error: { code: 'RPC_PAYLOAD_TOO_LARGE', message: 'x' } }
+    const mockFetch = vi.fn().mockResolvedValue(jsonResponse(error))
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      batch: {},
+      fetch: mockFetch as never as typeof fetch,
+    })
+
+    const results = await Promise.all([client.query('a'), client.query('b')])
+
+    expect(results).toEqual([error, error])
+  })
+})
+
+describe('createRPCClient codecs', () => {
+  const base64: Codec = {
+    format: 'base64',
+    contentType: 'application/x-base64-json',
+    encode: (value) => btoa(JSON.stringify(value)),
+    decode: (data) => JSON.parse(atob(typeof data === 'string' ? data : new TextDecoder().decode(data))),
+    canDecode: (contentType) => contentType.startsWith('application/x-base64-json'),
+  }
+
+  it('should talk to the server through a registered codec', async () => {
+    const router = createRouter({
+      echo: createProcedure().mutation(async ({ input }) => R.ok({ echoed: input }, 'RPC_OK')),
+    })
+    const seen: string[] = []
+    const serverFetch = async (url: string | URL | Request, init?: RequestInit) => {
+      const res = await fetchRequestHandler({
+        router,
+        createContext: () => ({}),
+        req: new Request(url, init),
+        codecs: [base64],
+      })
+      seen.push(res.headers.get('content-type') ?? '')
+      return res
+    }
+
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: serverFetch as typeof fetch,
+      format: 'base64',
+      codecs: [base64],
+    })
+    const res = await client.mutation('echo', { n: 1 })
+
+    expect(res).toEqual({ ok: true, data: { echoed: { n: 1 } }, code: 'RPC_OK' })
+    expect(seen).toEqual(['application/x-base64-json'])
+  })
+
+  it('should reject unknown formats at creation', () => {
+    expect(() => createRPCClient({ baseUrl: 'http://localhost', format: 'yaml' })).toThrow(
+      'No codec registered for format "yaml"',
+    )
+  })
+})
+
+describe('createRPCClient compression', () => {
+  it('should advertise Accept-Encoding and decompress CBOR bodies', async () => {
+    const rows = Array.from({ length: 200 }, (_, i) => ({ id: i, at: new Date(i) }))
+    const router = createRouter({
+      report: createProcedure().query(async () => R.ok(rows, 'RPC_OK')),
+    })
+    const seen: (string | null)[] = []
+    // Handing the server response straight back skips the decoding a real fetch would do.
+    const serverFetch = async (url: string | URL | Request, init?: RequestInit) => {
+      const req = new Request(url, init)
+      const res = await fetchRequestHandler({ router, createContext: () => ({}), req, compression: true })
+      seen.push(req.headers.get('accept-encoding'), res.headers.get('content-encoding'))
+      return res
+    }
+
+    const client = createRPCClient({ baseUrl: 'http://localhost', fetch: serverFetch as typeof fetch, format: 'cbor' })
+    const res = await client.query('report')
+
+    expect(res).toEqual({ ok: true, data: rows, code: 'RPC_OK' })
+    expect(seen[0]).toContain('gzip')
+    expect(seen[1]).toBe('gzip')
+  })
+})
+
+describe('createRPCClient timeouts', () => {
+  /** A fetch that never answers on its own and rejects once aborted, like a stalled connection. */
+  const hangingFetch = () =>
+    vi.fn(
+      (_url: string, init: RequestInit) =>
+        new Promise<Response>((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason), { once: true })
+        }),
+    )
+
+  it('should resolve with RPC_TIMEOUT once the timeout passes', async () => {
+    const fetchMock = hangingFetch()
+    const client = createRPCClient({ baseUrl: 'http://localhost', fetch: fetchMock as never, timeoutMs: 10 })
+
+    const res = await client.query('slow')
+
+    expect(res).toEqual({
+      ok: false,
+      code: 'RPC_TIMEOUT',
+      error: { code: 'RPC_TIMEOUT', message: 'Timed out after 10ms', issues: [] },
+    })
+    const headers = fetchMock.mock.calls[0]?.[1].headers as Record<string, string>
+    const timeout = Number(headers['x-rpc-timeout'])
+    expect(timeout).toBeGreaterThan(0)
+    expect(timeout).toBeLessThanOrEqual(10)
+  })
+
+  it('should let a call override the client timeout', async () => {
+    const fetchMock = hangingFetch()
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: fetchMock as never,
+      timeoutMs: 60_000,
+      mode: 'throw',
+    })
+
+    await expect(client.mutation('slow', {}, { timeoutMs: 5 })).rejects.toMatchObject({
+      name: 'RPCClientError',
+      code: 'RPC_TIMEOUT',
+    })
+  })
+
+  it('should still reject when the caller aborts first', async () => {
+    const client = createRPCClient({ baseUrl: 'http://localhost', fetch: hangingFetch() as never, timeoutMs: 60_000 })
+    const controller = new AbortController()
+
+    const pending = client.query('slow', undefined, { signal: controller.signal })
+    controller.abort(new Error('cancelled'))
+
+    await expect(pending).rejects.toThrow('cancelled')
+  })
+
+  it('should send the latest deadline of a batch', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify([R.ok('a', 'RPC_OK'), R.ok('b', 'RPC_OK')]), {
+        headers: { 'content-type': 'application/json' },
+      }),
+    )
+    const client = createRPCClient({ baseUrl: 'http://localhost', fetch: fetchMock as never, batch: {} })
+
+    await Promise.all([
+      client.query('a', undefined, { timeoutMs: 100 }),
+      client.query('b', undefined, { timeoutMs: 500 }),
+    ])
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    const timeout = Number(fetchMock.mock.calls[0]?.[1].headers['x-rpc-timeout'])
+    expect(timeout).toBeGreaterThan(100)
+    expect(timeout).toBeLessThanOrEqual(500)
+  })
+
+  it('should cancel the server resolver along with the call', async () => {
+    let reason: unknown
+    const router = createRouter({
+      slow: createProcedure().query(
+        ({ signal }) =>
+          new Promise((resolve) => {
+            signal.addEventListener(
+              'abort',
+              () => {
+                reason = signal.reason
+                setTimeout(() => resolve(R.ok('late', 'RPC_OK')), 50)
+              },
+              { once: true },
+            )
+          }),
+      ),
+    })
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      // Rejects on abort like a real fetch; the server keeps the client's signal as the request's.
+      fetch: ((url: string, init?: RequestInit) =>
+        new Promise((resolve, reject) => {
+          init?.signal?.addEventListener('abort', () => reject(init.signal?.reason), { once: true })
+          fetchRequestHandler({ router, createContext: () => ({}), req: new Request(url, init) }).then(resolve, reject)
+        })) as typeof fetch,
+      timeoutMs: 10,
+    })
+
+    const res = await client.query('slow')
+
+    expect(res.code).toBe('RPC_TIMEOUT')
+    await vi.waitFor(() => expect(reason).toBeDefined())
+  })
+})
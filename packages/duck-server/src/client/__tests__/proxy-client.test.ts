@@ -5,11 +5,17 @@
  * - Proxy client creation
  * - Type-safe calls
  * - Path building
+ * - Declared error narrowing
+ * - Rich types through a transformer
+ * - Transformers on MessagePack bodies
  */
 
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
 import { initRPC } from '../../server/core/init'
 import { RPCRes as R } from '../../server/core/response'
+import { fetchRequestHandler } from '../../server/http/fetch'
+import { richTransformer } from '../../server/serialization/transformer'
 import { createRPCProxyClient } from '../proxy-client'
 
 describe('createRPCProxyClient', () => {
@@ -65,4 +71,123 @@ describe('createRPCProxyClient', () => {
 
     expect(mockFetch).toHaveBeenCalledWith(expect.stringContaining('/rpc/user.nested'), expect.any(Object))
   })
+
+  it('should batch proxy calls when batching is enabled', async () => {
+    mockFetch.mockResolvedValue(
+      new Response(
+        JSON.stringify([
+          { ok: true, data: 'a', code: 'RPC_OK' },
+          { ok: true, data: 'b', code: 'RPC_OK' },
+        ]),
+        { headers: { 'content-type': 'application/json' } },
+      ),
+    )
+
+    const client = createRPCProxyClient({
+      baseUrl: 'http://localhost',
+      batch: {},
+      fetch: mockFetch as never as typeof fetch,
+    })
+
+    // @ts-expect-error - proxy client type checking
+    const results = await Promise.all([client.hello.query({}), client.user.nested.query({})])
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(results.map((r: { data: unknown }) => r.data)).toEqual(['a', 'b'])
+  })
+
+  it('should type declared errors with their data', async () => {
+    mockFetch.mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          ok: false,
+          code: 'RPC_INSUFFICIENT_FUNDS',
+          error: { code: 'RPC_INSUFFICIENT_FUNDS', message: 'Low', issues: [], data: { balance: 5 } },
+        }),
+        { status: 400, headers: { 'content-type': 'application/json' } },
+      ),
+    )
+    const t = initRPC().create()
+    const appRouter = t.router({
+      pay: t
+        .procedure()
+        .errors({ INSUFFICIENT_FUNDS: z.object({ balance: z.number() }) })
+        .mutation(async ({ errors }) => {
+          throw errors.INSUFFICIENT_FUNDS({ balance: 5 })
+        }),
+    })
+
+    const client = createRPCProxyClient<typeof appRouter>({
+      baseUrl: 'http://localhost',
+      fetch: mockFetch as never as typeof fetch,
+    })
+    const res = await client.pay.mutation(undefined)
+
+    const balance = !res.ok && res.code === 'RPC_INSUFFICIENT_FUNDS' ? res.error.data.balance : undefined
+    expect(balance).toBe(5)
+  })
+  it('should restore rich types end to end with a transformer', async () => {
+    const t = initRPC().create()
+    const appRouter = t.router({
+      shift: t
+        .procedure()
+        .input(z.object({ from: z.date(), days: z.bigint() }))
+        .query(async ({ input }) => {
+          const to = new Date(input.from.getTime() + Number(input.days) * 86_400_000)
+          return R.ok({ to, seen: new Set([input.days]) }, 'RPC_OK')
+        }),
+    })
+    const serverFetch = (url: string | URL | Request, init?: RequestInit) =>
+      fetchRequestHandler({
+        router: appRouter,
+        createContext: () => ({}),
+        req: new Request(url, init),
+        transformer: richTransformer,
+      })
+
+    const client = createRPCProxyClient<typeof appRouter>({
+      baseUrl: 'http://localhost',
+      fetch: serverFetch as typeof fetch,
+      transformer: richTransformer,
+    })
+    const res = await client.shift.query({ from: new Date('2024-01-01T00:00:00.000Z'), days: 2n })
+
+    expect(res.ok).toBe(true)
+    if (res.ok) {
+      expect(res.data.to).toEqual(new Date('2024-01-03T00:00:00.000Z'))
+      expect(res.data.seen.has(2n)).toBe(true)
+    }
+  })
+
+  it('should restore Map and Set through MessagePack bodies', async () => {
+    const t = initRPC().create()
+    const appRouter = t.router({
+      tag: t
+        .procedure()
+        .input(z.object({ tags: z.set(z.string()) }))
+        .mutation(async ({ input }) => R.ok(new Map([...input.tags].map((tag) => [tag, tag.length])), 'RPC_OK')),
+    })
+    const serverFetch = (url: string | URL | Request, init?: RequestInit) =>
+      fetchRequestHandler({
+        router: appRouter,
+        createContext: () => ({}),
+        req: new Request(url, init),
+        transformer: richTransformer,
+      })
+
+    const client = createRPCProxyClient<typeof appRouter>({
+      baseUrl: 'http://localhost',
+      fetch: serverFetch as typeof fetch,
+      format: 'msgpack',
+      transformer: richTransformer,
+    })
+    const res = await client.tag.mutation({ tags: new Set(['duck', 'go']) })
+
+    expect(res.ok && res.data).toEqual(
+      new Map([
+        ['duck', 4],
+        ['go', 2],
+      ]),
+    )
+  })
 })
@@ -0,0 +1,16 @@
+/**
+ * Response fixtures shared by the client tests, for fetch mocks that answer without a server.
+ */
+
+/** A JSON response with optional extra headers. */
+export const jsonResponse = (body: unknown, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { headers: { 'content-type': 'application/json', ...headers } })
+
+/** A successful result response. */
+export const okResponse = (data: unknown = 'done') => jsonResponse({ ok: true, data, code: 'RPC_OK' })
+
+/** An error result response; its message defaults to the code. */
+export const errorResponse = (
+  code: string,
+  { message = code, headers }: { message?: string; headers?: Record<string, string> } = {},
+) => jsonResponse({ ok: false, code, error: { code, message, issues: [] } }, headers)
@@ -0,0 +1,163 @@
+/**
+ * Tests for client retries.
+ *
+ * Covers:
+ * - Retrying network errors and transient codes
+ * - Retry-After, including on batch responses
+ * - Mutations and idempotency keys
+ * - Attempt reporting
+ * - Aborting between attempts
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createRPCClient } from '../low-level-client'
+import type { RetryAttempt } from '../retry'
+import { errorResponse, jsonResponse, okResponse } from './responses'
+
+const createClient = (fetchMock: ReturnType<typeof vi.fn>, attempts: RetryAttempt[] = []) =>
+  createRPCClient({
+    baseUrl: 'http://localhost',
+    fetch: fetchMock as never as typeof fetch,
+    retry: { baseDelayMs: 1, onAttempt: (attempt) => attempts.push(attempt) },
+  })
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('createRPCClient retries', () => {
+  it('should retry queries after network errors and transient codes', async () => {
+    const fetchMock = vi
+      .fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(errorResponse('RPC_SERVICE_UNAVAILABLE'))
+      .mockResolvedValueOnce(okResponse())
+    const attempts: RetryAttempt[] = []
+
+    const res = await createClient(fetchMock, attempts).query('report')
+
+    expect(res).toEqual({ ok: true, data: 'done', code: 'RPC_OK' })
+    expect(attempts.map(({ attempt, retryInMs }) => [attempt, retryInMs !== undefined])).toEqual([
+      [1, true],
+      [2, true],
+      [3, false],
+    ])
+    expect(attempts[0]?.error).toBeInstanceOf(TypeError)
+    expect(attempts[1]?.result?.code).toBe('RPC_SERVICE_UNAVAILABLE')
+  })
+
+  it('should not retry other error codes', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse('RPC_BAD_REQUEST'))
+
+    const res = await createClient(fetchMock).query('report')
+
+    expect(res.code).toBe('RPC_BAD_REQUEST')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should give up after the configured retries', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => errorResponse('RPC_GATEWAY_TIMEOUT'))
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: fetchMock as never as typeof fetch,
+      retry: { retries: 2, baseDelayMs: 1 },
+    })
+
+    const res = await client.query('report')
+
+    expect(res.code).toBe('RPC_GATEWAY_TIMEOUT')
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('should rethrow the last network error', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new TypeError('fetch failed'))
+
+    await expect(createClient(fetchMock).query('report')).rejects.toThrow('fetch failed')
+    expect(fetchMock).toHaveBeenCalledTimes(4)
+  })
+
+  it('should wait for Retry-After and stop when it exceeds maxDelayMs', async () => {
+    vi.useFakeTimers()
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(errorResponse('RPC_TOO_MANY_REQUESTS', { headers: { 'retry-after': '2' } }))
+      .mockResolvedValueOnce(errorResponse('RPC_TOO_MANY_REQUESTS', { headers: { 'retry-after': '60' } }))
+    const attempts: RetryAttempt[] = []
+
+    const pending = createClient(fetchMock, attempts).query('report')
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+    const res = await pending
+
+    expect(res.code).toBe('RPC_TOO_MANY_REQUESTS')
+    expect(attempts.map((attempt) => attempt.retryInMs)).toEqual([2000, undefined])
+  })
+
+  it('should wait for the Retry-After of a batch response', async () => {
+    vi.useFakeTimers()
+    const busy = { ok: false, code: 'RPC_TOO_MANY_REQUESTS', error: { code: 'RPC_TOO_MANY_REQUESTS', issues: [] } }
+    const fetchMock = vi
+      .fn()
+      .mockResolvedValueOnce(jsonResponse([busy], { 'retry-after': '2' }))
+      .mockResolvedValueOnce(jsonResponse([{ ok: true, data: 'done', code: 'RPC_OK' }]))
+    const attempts: RetryAttempt[] = []
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: fetchMock as never as typeof fetch,
+      batch: {},
+      retry: { baseDelayMs: 1, onAttempt: (attempt) => attempts.push(attempt) },
+    })
+
+    const pending = client.query('report')
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect((await pending).ok).toBe(true)
+    expect(attempts.map((attempt) => attempt.retryInMs)).toEqual([2000, undefined])
+  })
+
+  it('should retry mutations only with an idempotency key', async () => {
+    const fetchMock = vi.fn().mockResolvedValueOnce(errorResponse('RPC_SERVICE_UNAVAILABLE'))
+    const client = createClient(fetchMock)
+
+    const res = await client.mutation('pay', { amount: 1 })
+    expect(res.code).toBe('RPC_SERVICE_UNAVAILABLE')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+
+    fetchMock.mockResolvedValueOnce(errorResponse('RPC_SERVICE_UNAVAILABLE')).mockResolvedValueOnce(okResponse())
+    const retried = await client.mutation('pay', { amount: 1 }, { idempotencyKey: 'pay-1' })
+
+    expect(retried.ok).toBe(true)
+    const keys = fetchMock.mock.calls.slice(1).map(([, init]) => init.headers['idempotency-key'])
+    expect(keys).toEqual(['pay-1', 'pay-1'])
+  })
+
+  it('should let a call opt out of retries', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse('RPC_SERVICE_UNAVAILABLE'))
+
+    await createClient(fetchMock).query('report', undefined, { retry: false })
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('should stop waiting when the call is aborted', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse('RPC_SERVICE_UNAVAILABLE'))
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: fetchMock as never as typeof fetch,
+      retry: { baseDelayMs: 60_000, maxDelayMs: 60_000 },
+    })
+    const controller = new AbortController()
+    vi.spyOn(Math, 'random').mockReturnValue(1)
+
+    const pending = client.query('report', undefined, { signal: controller.signal })
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(1))
+    controller.abort(new Error('cancelled'))
+
+    await expect(pending).rejects.toThrow('cancelled')
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    vi.restoreAllMocks()
+  })
+})
@@ -0,0 +1,218 @@
+/**
+ * Tests for client subscriptions.
+ *
+ * Covers:
+ * - SSE stream parsing
+ * - Callback subscriptions
+ * - Async iteration
+ * - Reconnect and resume
+ * - Failed starts, including problem details
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { initRPC } from '../../server/core/init'
+import { tracked } from '../../server/core/subscription'
+import { fetchRequestHandler } from '../../server/http/fetch'
+import { createRPCClient } from '../low-level-client'
+import { createRPCProxyClient } from '../proxy-client'
+import { parseSSEStream } from '../subscription'
+
+const t = initRPC().create()
+
+const appRouter = t.router({
+  counter: t
+    .procedure()
+    .input(z.object({ to: z.number() }))
+    .subscription(async function* ({ input }) {
+      for (let i = 1; i <= input.to; i++) yield tracked(String(i), { n: i })
+    }),
+  secret: t
+    .procedure()
+    .use(async () => ({ ok: false, error: { code: 'RPC_UNAUTHORIZED', message: 'No', name: 'Error', issues: [] } }))
+    .subscription(async function* () {
+      yield 1
+    }),
+})
+
+/** A fetch implementation served directly by the RPC handler. */
+const handlerFetch = (async (url: string, init?: RequestInit) =>
+  fetchRequestHandler({
+    router: appRouter,
+    createContext: () => ({}),
+    req: new Request(url, init),
+  })) as typeof fetch
+
+/** Build an SSE response from raw chunks. */
+function sseResponse(chunks: string[]) {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk))
+      controller.close()
+    },
+  })
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } })
+}
+
+const frame = (data: unknown) => JSON.stringify({ ok: true, data, code: 'RPC_OK' })
+
+describe('parseSSEStream', () => {
+  it('should parse messages split across chunks', async () => {
+    const res = sseResponse(['id: 1\nevent: da', 'ta\ndata: {"a":1}\n\n: comment\n\nevent: complete\ndata: {}\n\n'])
+    const messages = []
+    for await (const msg of parseSSEStream(res.body!)) messages.push(msg)
+
+    expect(messages).toEqual([
+      { event: 'data', id: '1', data: '{"a":1}' },
+      { event: 'complete', id: undefined, data: '{}' },
+    ])
+  })
+})
+
+describe('client subscriptions', () => {
+  it('should deliver data and completion through callbacks', async () => {
+    const client = createRPCClient({ baseUrl: 'http://localhost', fetch: handlerFetch })
+    const received: unknown[] = []
+
+    await new Promise<void>((resolve, reject) => {
+      client.subscribe<{ n: number }>(
+        'counter',
+        { to: 3 },
+        {
+          onData: (data, { id }) => received.push([id, data.n]),
+          onError: reject,
+          onComplete: resolve,
+        },
+      )
+    })
+
+    expect(received).toEqual([
+      ['1', 1],
+      ['2', 2],
+      ['3', 3],
+    ])
+  })
+
+  it('should report a rejected subscription through onError', async () => {
+    const client = createRPCClient({ baseUrl: 'http://localhost', fetch: handlerFetch })
+
+    const error = await new Promise((resolve) => {
+      client.subscribe('secret', undefined, { onError: resolve })
+    })
+
+    expect(error).toMatchObject({ ok: false, code: 'RPC_UNAUTHORIZED' })
+  })
+
+  it('should read the code of a problem details rejection', async () => {
+    const problemFetch = (async (url: string, init?: RequestInit) =>
+      fetchRequestHandler({
+        router: appRouter,
+        createContext: () => ({}),
+        req: new Request(url, init),
+        errorFormat: 'problem',
+      })) as typeof fetch
+    const client = createRPCClient({ baseUrl: 'http://localhost', fetch: problemFetch })
+
+    const error = await new Promise((resolve) => {
+      client.subscribe('secret', undefined, { onError: resolve })
+    })
+
+    expect(error).toEqual({
+      ok: false,
+      code: 'RPC_UNAUTHORIZED',
+      error: { code: 'RPC_UNAUTHORIZED', message: 'No', issues: [] },
+    })
+  })
+
+  it('should reconnect and resume from the last event id', async () => {
+    const mockFetch = vi
+      .fn()
+      .mockResolvedValueOnce(sseResponse([`id: 1\nevent: data\ndata: ${frame('a')}\n\n`]))
+      .mockResolvedValueOnce(
+        sseResponse([`id: 2\nevent: data\ndata: ${frame('b')}\n\n`, 'event: complete\ndata: {}\n\n']),
+      )
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: mockFetch as never as typeof fetch,
+      reconnect: { baseDelayMs: 1 },
+    })
+    const received: unknown[] = []
+
+    await new Promise<void>((resolve) => {
+      client.subscribe('events', undefined, { onData: (data) => received.push(data), onComplete: resolve })
+    })
+
+    expect(received).toEqual(['a', 'b'])
+    expect(mockFetch).toHaveBeenCalledTimes(2)
+    expect(mockFetch.mock.calls[1]![1].headers['last-event-id']).toBe('1')
+  })
+
+  it('should fail once reconnect attempts are exhausted', async () => {
+    const mockFetch = vi.fn().mockRejectedValue(new Error('offline'))
+    const client = createRPCClient({
+      baseUrl: 'http://localhost',
+      fetch: mockFetch as never as typeof fetch,
+      reconnect: { retries: 2, baseDelayMs: 1 },
+    })
+
+    const error = await new Promise((resolve) => {
+      client.subscribe('events', undefined, { onError: resolve })
+    })
+
+    expect(mockFetch).toHaveBeenCalledTimes(3)
+    expect(error).toMatchObject({ ok: false, code: 'RPC_SERVICE_UNAVAILABLE' })
+  })
+
+  it('should stop when the signal aborts', async () => {
+    const controller = new AbortController()
+    const mockFetch = vi.fn().mockResolvedValue(sseResponse([`event: data\ndata: ${frame('a')}\n\n`]))
+    const client = createRPCClient({ baseUrl: 'http://localhost', fetch: mockFetch as never as typeof fetch })
+    const onError = vi.fn()
+
+    await new Promise<void>((resolve) => {
+      client.subscribe('events', undefined, {
+        signal: controller.signal,
+        onError,
+        onData: () => {
+          controller.abort()
+          resolve()
+        },
+      })
+    })
+    await new Promise((resolve) => setTimeout(resolve, 5))
+
+    expect(mockFetch).toHaveBeenCalledTimes(1)
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it('should iterate subscription values through the typed proxy', async () => {
+    const client = createRPCProxyClient<typeof appRouter>({ baseUrl: 'http://localhost', fetch: handlerFetch })
+    const values: number[] = []
+
+    for await (const res of client.counter.iterate({ to: 2 })) {
+      if (res.ok) values.push(res.data.n)
+    }
+
+    expect(values).toEqual([1, 2])
+  })
+
+  it('should unsubscribe when iteration stops early', async () => {
+    const client = createRPCProxyClient<typeof appRouter>({ baseUrl: 'http://localhost', fetch: handlerFetch })
+
+    for await (const res of client.counter.iterate({ to: 100 })) {
+      expect(res.ok).toBe(true)
+      break
+    }
+  })
+
+  it('should end iteration with the error frame', async () => {
+    const client = createRPCProxyClient<typeof appRouter>({ baseUrl: 'http://localhost', fetch: handlerFetch })
+    const frames = []
+
+    for await (const res of client.secret.iterate(undefined)) frames.push(res)
+
+    expect(frames).toHaveLength(1)
+    expect(frames[0]).toMatchObject({ ok: false, code: 'RPC_UNAUTHORIZED' })
+  })
+})
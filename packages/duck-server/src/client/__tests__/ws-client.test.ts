@@ -0,0 +1,271 @@
+/**
+ * Tests for the WebSocket client transport.
+ *
+ * Covers:
+ * - Calls through the typed proxy
+ * - Subscriptions and unsubscribe
+ * - CBOR frames
+ * - Transformers on text frames
+ * - Reconnect and resume
+ * - Failed connects and closed clients
+ * - Unsubscribing before the socket opens
+ * - Deadlines
+ */
+
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { initRPC } from '../../server/core/init'
+import { RPCRes as R } from '../../server/core/response'
+import { tracked } from '../../server/core/subscription'
+import { createWSConnection, type WSConnection } from '../../server/http/ws'
+import { type DataTransformer, richTransformer } from '../../server/serialization/transformer'
+import { createRPCProxyClient } from '../proxy-client'
+import { createWSClient, type WebSocketLike } from '../ws-client'
+
+const t = initRPC<{ id: string }>().create()
+let charges = 0
+let live = 0
+
+const appRouter = t.router({
+  user: t.router({
+    get: t
+      .procedure()
+      .input(z.object({ id: z.number() }))
+      .query(async ({ input }) => R.ok({ id: input.id, name: 'Ada' }, 'RPC_OK')),
+  }),
+  charge: t.procedure().mutation(async () => R.ok(++charges, 'RPC_OK')),
+  budget: t.procedure().query(async ({ remainingMs }) => R.ok(remainingMs(), 'RPC_OK')),
+  since: t
+    .procedure()
+    .input(z.date())
+    .query(async ({ input }) => R.ok({ at: new Date(input.getTime() + 1) }, 'RPC_OK')),
+  forever: t.procedure().subscription(async function* ({ signal }) {
+    live++
+    try {
+      while (!signal.aborted) {
+        yield 'tick'
+        await new Promise((resolve) => setTimeout(resolve, 1))
+      }
+    } finally {
+      live--
+    }
+  }),
+  ticks: t
+    .procedure()
+    .input(z.number())
+    .subscription(async function* ({ input, lastEventId }) {
+      for (let i = Number(lastEventId ?? 0) + 1; i <= input; i++) yield tracked(String(i), i)
+    }),
+})
+
+/**
+ * In-memory socket backed by a server connection. The first `failures` sockets close before opening;
+ * the others open once `opened` resolves.
+ */
+function createFakeSocket(
+  transformer?: DataTransformer,
+  { failures = 0, opened }: { failures?: number; opened?: Promise<unknown> } = {},
+) {
+  const sockets: FakeSocket[] = []
+
+  class FakeSocket implements WebSocketLike {
+    binaryType = 'blob'
+    readyState = 0
+    onopen: WebSocketLike['onopen'] = null
+    onmessage: WebSocketLike['onmessage'] = null
+    onclose: WebSocketLike['onclose'] = null
+    onerror: WebSocketLike['onerror'] = null
+    server: WSConnection
+
+    constructor(_url: string) {
+      sockets.push(this)
+      this.server = createWSConnection({
+        router: appRouter,
+        createContext: () => ({ id: 'conn' }),
+        req: new Request('http://localhost/rpc/ws'),
+        ...(transformer ? { transformer } : {}),
+        send: (data) => queueMicrotask(() => this.onmessage?.({ data })),
+      })
+      const fails = sockets.length <= failures
+      void Promise.resolve(opened).then(() => {
+        this.readyState = fails ? 3 : 1
+        if (fails) this.onclose?.({})
+        else this.onopen?.({})
+      })
+    }
+
+    send(data: string | Uint8Array) {
+      void this.server.receive(data)
+    }
+
+    close() {
+      this.readyState = 3
+      this.server.close()
+      queueMicrotask(() => this.onclose?.({}))
+    }
+  }
+
+  return { FakeSocket, sockets }
+}
+
+describe('createWSClient', () => {
+  it('should run calls through the typed proxy', async () => {
+    const { FakeSocket, sockets } = createFakeSocket()
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+
+    const [a, b] = await Promise.all([client.user.get.query({ id: 1 }), client.user.get.query({ id: 2 })])
+
+    expect(a).toEqual({ ok: true, data: { id: 1, name: 'Ada' }, code: 'RPC_OK' })
+    expect(b.ok && b.data.id).toBe(2)
+    expect(sockets).toHaveLength(1)
+    ws.close()
+  })
+
+  it('should use binary frames in CBOR mode', async () => {
+    const { FakeSocket } = createFakeSocket()
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', format: 'cbor', WebSocket: FakeSocket })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+
+    const res = await client.user.get.query({ id: 3 })
+
+    expect(res).toEqual({ ok: true, data: { id: 3, name: 'Ada' }, code: 'RPC_OK' })
+    ws.close()
+  })
+
+  it('should apply the transformer to text frames', async () => {
+    const { FakeSocket } = createFakeSocket(richTransformer)
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket, transformer: richTransformer })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+
+    const res = await client.since.query(new Date(10))
+
+    expect(res.ok && res.data.at).toEqual(new Date(11))
+    ws.close()
+  })
+
+  it('should stream subscriptions', async () => {
+    const { FakeSocket } = createFakeSocket()
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+    const values: number[] = []
+
+    for await (const res of client.ticks.iterate(3)) {
+      if (res.ok) values.push(res.data)
+    }
+
+    expect(values).toEqual([1, 2, 3])
+    ws.close()
+  })
+
+  it('should reject pending calls when the socket closes', async () => {
+    const { FakeSocket } = createFakeSocket()
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+
+    const pending = client.user.get.query({ id: 1 })
+    ws.close()
+
+    await expect(pending).rejects.toThrow('WebSocket connection closed')
+  })
+
+  it('should resubscribe from the last event id after a drop', async () => {
+    const { FakeSocket, sockets } = createFakeSocket()
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket, reconnect: { baseDelayMs: 1 } })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+    const values: number[] = []
+
+    await new Promise<void>((resolve) => {
+      client.ticks.subscribe(4, {
+        onData: (n) => {
+          values.push(n)
+          // Drop the connection after the second value.
+          if (n === 2) sockets[0]!.close()
+        },
+        onComplete: resolve,
+      })
+    })
+
+    expect(sockets.length).toBeGreaterThan(1)
+    expect(values.slice(0, 2)).toEqual([1, 2])
+    expect(values.at(-1)).toBe(4)
+    ws.close()
+  })
+
+  it('should drop calls queued on a connection that failed to open', async () => {
+    const { FakeSocket, sockets } = createFakeSocket(undefined, { failures: 1 })
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+    charges = 0
+
+    await expect(client.charge.mutation(undefined)).rejects.toThrow('WebSocket connection closed')
+    expect((await client.user.get.query({ id: 1 })).ok).toBe(true)
+
+    expect(sockets).toHaveLength(2)
+    expect(charges).toBe(0)
+    ws.close()
+  })
+
+  it('should subscribe once after a failed connect', async () => {
+    const { FakeSocket } = createFakeSocket(undefined, { failures: 1 })
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket, reconnect: { baseDelayMs: 1 } })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+    const values: number[] = []
+    let error: unknown
+
+    await new Promise<void>((resolve) => {
+      client.ticks.subscribe(2, {
+        onData: (n) => values.push(n),
+        onError: (res) => {
+          error = res
+          resolve()
+        },
+        onComplete: resolve,
+      })
+    })
+
+    expect(error).toBeUndefined()
+    expect(values).toEqual([1, 2])
+    ws.close()
+  })
+
+  it('should send the remaining budget of calls with a timeout', async () => {
+    const { FakeSocket } = createFakeSocket()
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+
+    const bounded = await client.budget.query(undefined, { timeoutMs: 5_000 })
+    const unbounded = await client.budget.query(undefined)
+
+    expect(bounded.ok && bounded.data).toBeGreaterThan(4_000)
+    expect(bounded.ok && bounded.data).toBeLessThanOrEqual(5_000)
+    // JSON has no Infinity, so it arrives as null.
+    expect(unbounded.ok && unbounded.data).toBeNull()
+    ws.close()
+  })
+
+  it('should stop a subscription dropped while the socket opens', async () => {
+    let open = () => {}
+    const { FakeSocket } = createFakeSocket(undefined, { opened: new Promise<void>((resolve) => (open = resolve)) })
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+    live = 0
+
+    const sub = client.forever.subscribe(undefined, {})
+    sub.unsubscribe()
+    open()
+    await new Promise((resolve) => setTimeout(resolve, 10))
+
+    expect(live).toBe(0)
+    ws.close()
+  })
+
+  it('should reject calls made after close', async () => {
+    const { FakeSocket } = createFakeSocket()
+    const ws = createWSClient({ url: 'ws://localhost/rpc/ws', WebSocket: FakeSocket })
+    const client = createRPCProxyClient<typeof appRouter>({ transport: ws })
+    ws.close()
+
+    await expect(client.user.get.query({ id: 1 })).rejects.toThrow('WebSocket client closed')
+  })
+})
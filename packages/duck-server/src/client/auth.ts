@@ -0,0 +1,73 @@
+import type { RPCResType } from '../server/core/response'
+import type { ClientInterceptor } from './interceptor'
+import type { TransportCall } from './low-level-client'
+
+/**
+ * Auth refresh for the low-level client.
+ * A call answered with `RPC_UNAUTHORIZED` triggers one refresh; calls made while it runs wait for it,
+ * and every call that failed is replayed once with the refreshed headers.
+ */
+
+/** Fetch new credentials, resolving with headers merged over every later call's, ex: `{ authorization: 'Bearer …' }`. */
+export type RefreshAuth = () => Promise<Record<string, string>>
+
+type RefreshOutcome = { ok: true } | { ok: false; error: RPCResType<never> }
+
+/** Create the refresh state of one client: the refreshed headers and the interceptor that keeps them current. */
+export function createAuthRefresh(refreshAuth: RefreshAuth) {
+  let headers: Record<string, string> = {}
+  // Bumped by every successful refresh, so calls sent with older credentials replay instead of refreshing again.
+  let generation = 0
+  let pending: Promise<RefreshOutcome> | null = null
+
+  /** Join the refresh in flight, or start one unless credentials changed since the call was sent. */
+  const refresh = (sentAt: number): Promise<RefreshOutcome> => {
+    if (pending) return pending
+    if (sentAt !== generation) return Promise.resolve({ ok: true })
+
+    pending = Promise.resolve()
+      .then(refreshAuth)
+      .then((fresh): RefreshOutcome => {
+        headers = { ...headers, ...fresh }
+        generation++
+        return { ok: true }
+      })
+      .catch((error: unknown): RefreshOutcome => ({ ok: false, error: toRefreshError(error) }))
+      .finally(() => {
+        pending = null
+      })
+    return pending
+  }
+
+  const withHeaders = (call: TransportCall): TransportCall => ({ ...call, headers: { ...call.headers, ...headers } })
+
+  const interceptor: ClientInterceptor = {
+    onRequest: async (call, next) => {
+      // Calls made during a refresh wait for it instead of going out with credentials about to be replaced.
+      if (pending) {
+        const outcome = await pending
+        if (!outcome.ok) return outcome.error
+      }
+
+      const sentAt = generation
+      const res = await next(withHeaders(call))
+      if (res.ok || res.code !== 'RPC_UNAUTHORIZED') return res
+
+      const outcome = await refresh(sentAt)
+      return outcome.ok ? next(withHeaders(call)) : outcome.error
+    },
+  }
+
+  return {
+    /** Headers from the latest successful refresh. */
+    headers: () => headers,
+    interceptor,
+  }
+}
+
+/** Wrap a failed refresh into the error result every waiting call resolves with. */
+function toRefreshError(error: unknown): RPCResType<never> {
+  const code = 'RPC_UNAUTHORIZED'
+  const message = error instanceof Error ? `Auth refresh failed: ${error.message}` : 'Auth refresh failed'
+  return { ok: false, code, error: { code, message, issues: [] } }
+}
@@ -0,0 +1,152 @@
+import type { RPCResType } from '../server/core/response'
+import type { AttemptInfo } from './retry'
+
+/**
+ * Batch scheduler for the low-level client.
+ * Collects calls made in the same tick (or window) and sends them as one request.
+ */
+
+/** Options for coalescing calls into batched requests. */
+export type BatchOptions = {
+  /** Maximum calls per batched request, default: 50 (the server default). */
+  maxItems?: number
+  /** Longest GET URL allowed before a query batch falls back to POST, default: 2048. */
+  maxUrlLength?: number
+  /** Time to wait for more calls before flushing, default: 0 (same microtask tick). */
+  windowMs?: number
+}
+
+/** A call waiting in the batch queue. */
+export type BatchItem = {
+  path: string
+  type: 'query' | 'mutation'
+  input: unknown
+  headers: Record<string, string>
+  /** Epoch ms after which the caller gives up. */
+  deadline?: number | undefined
+}
+
+/** Results of a batched request, one per item in order, with the response details every item shares. */
+export type BatchResponse = {
+  results: RPCResType<unknown>[]
+  /** The response's `Retry-After` header. */
+  retryAfter: string | null
+}
+
+/** Sends a group of items and resolves with their results. */
+export type BatchSender = (items: BatchItem[], signal: AbortSignal) => Promise<BatchResponse>
+
+type PendingCall = BatchItem & {
+  signal: AbortSignal | undefined
+  info: AttemptInfo | undefined
+  settled: boolean
+  resolve: (res: RPCResType<unknown>) => void
+  reject: (reason: unknown) => void
+  detach: () => void
+}
+
+/** Create a scheduler that coalesces calls and dispatches them through `send`. */
+export function createBatchScheduler(opts: BatchOptions, send: BatchSender) {
+  const maxItems = Math.max(1, opts.maxItems ?? 50)
+  // Calls with different per-call headers cannot share one HTTP request, so queue them apart.
+  const queues = new Map<string, PendingCall[]>()
+  let scheduled = false
+
+  const schedule = () => {
+    if (scheduled) return
+    scheduled = true
+    if (opts.windowMs && opts.windowMs > 0) setTimeout(flush, opts.windowMs)
+    else queueMicrotask(flush)
+  }
+
+  const flush = () => {
+    scheduled = false
+    const groups = [...queues.values()]
+    queues.clear()
+
+    for (const group of groups) {
+      for (let i = 0; i < group.length; i += maxItems) {
+        void dispatch(group.slice(i, i + maxItems))
+      }
+    }
+  }
+
+  const dispatch = async (calls: PendingCall[]) => {
+    // The shared request is only cancelled once every call in it has been aborted.
+    const controller = new AbortController()
+    const onAbort = () => {
+      if (calls.every((c) => c.settled)) controller.abort()
+    }
+    for (const c of calls) c.signal?.addEventListener('abort', onAbort, { once: true })
+
+    try {
+      const { results, retryAfter } = await send(calls, controller.signal)
+      calls.forEach((c, i) => {
+        settle(c, () => {
+          if (c.info) c.info.retryAfter = retryAfter
+          c.resolve(results[i] ?? missingResult())
+        })
+      })
+    } catch (error) {
+      for (const c of calls) settle(c, () => c.reject(error))
+    } finally {
+      for (const c of calls) c.signal?.removeEventListener('abort', onAbort)
+    }
+  }
+
+  /** Queue a call and resolve with its own result once the batch returns, noting shared response details in `info`. */
+  const enqueue = <TData>(item: BatchItem, signal?: AbortSignal, info?: AttemptInfo): Promise<RPCResType<TData>> => {
+    return new Promise<RPCResType<unknown>>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const key = headersKey(item.headers)
+      const call: PendingCall = { ...item, signal, info, settled: false, resolve, reject, detach: () => {} }
+
+      if (signal) {
+        // Aborting one call removes only that call, whether it is still queued or already in flight.
+        const onAbort = () => {
+          const queue = queues.get(key)
+          const idx = queue?.indexOf(call) ?? -1
+          if (queue && idx >= 0) {
+            queue.splice(idx, 1)
+            if (!queue.length) queues.delete(key)
+          }
+          settle(call, () => reject(signal.reason))
+        }
+        signal.addEventListener('abort', onAbort, { once: true })
+        call.detach = () => signal.removeEventListener('abort', onAbort)
+      }
+
+      const queue = queues.get(key)
+      if (queue) queue.push(call)
+      else queues.set(key, [call])
+      schedule()
+    }) as Promise<RPCResType<TData>>
+  }
+
+  return { enqueue }
+}
+
+/** Settle a pending call exactly once. */
+function settle(call: PendingCall, fn: () => void) {
+  if (call.settled) return
+  call.settled = true
+  call.detach()
+  fn()
+}
+
+/** Stable key for a header record. */
+function headersKey(headers: Record<string, string>): string {
+  const keys = Object.keys(headers)
+  if (!keys.length) return ''
+  return JSON.stringify(keys.sort().map((k) => [k.toLowerCase(), headers[k]]))
+}
+
+/** Result used when the server returned fewer results than calls. */
+function missingResult(): RPCResType<never> {
+  const code = 'RPC_BAD_GATEWAY'
+  return { ok: false, code, error: { code, message: 'Missing result in batch response', issues: [] } }
+}
@@ -0,0 +1,64 @@
+import { getRPCStatus, type RPCCode } from '../server/core/codes'
+import type { RPCResType } from '../server/core/response'
+import type { StandardSchemaV1 } from '../server/core/schema'
+
+/** Error result of a call. */
+export type RPCErrorResult = Extract<RPCResType<never>, { ok: false }>
+
+/** Error thrown by clients in `mode: 'throw'` when a call resolves with an error result. */
+export interface RPCClientError extends Error {
+  code: RPCCode
+  issues: ReadonlyArray<StandardSchemaV1.Issue>
+  /**
+   * HTTP status of the error response. Results without their own (batched, WebSocket, rewritten by an interceptor or
+   * sent with a 2xx status) fall back to the built-in status of the code, ex: 404 for `RPC_NOT_FOUND`, 500 for others.
+   */
+  status: number
+  /** Dotted procedure path of the failed call. */
+  path: string
+  /** Typed payload of a declared error. */
+  data?: unknown
+  /** Id of a redacted server error; log it to correlate reports. */
+  errorId?: string
+  /** The error result as received. */
+  result: RPCErrorResult
+}
+
+/** HTTP status each decoded result arrived with, keyed by the result object. */
+const RESPONSE_STATUS = new WeakMap<object, number>()
+
+/** Remember the HTTP status `result` was decoded from, so errors report it instead of guessing from the code. */
+export function setResponseStatus(result: unknown, status: number): void {
+  if (result && typeof result === 'object') RESPONSE_STATUS.set(result, status)
+}
+
+/** Create an {@link RPCClientError} from the error result of the call to `path`. */
+export function createRPCClientError(result: RPCErrorResult, path: string): RPCClientError {
+  const err = new Error(result.error.message) as RPCClientError
+  err.name = 'RPCClientError'
+  err.code = result.code
+  err.issues = result.error.issues ?? []
+  err.status = RESPONSE_STATUS.get(result) ?? getRPCStatus(result.code)
+  err.path = path
+  if (result.error.data !== undefined) err.data = result.error.data
+  if (result.error.errorId !== undefined) err.errorId = result.error.errorId
+  err.result = result
+  return err
+}
+
+/** Runtime type guard for RPCClientError values, the client-side counterpart of `isRPCError`. */
+export function isRPCClientError(e: unknown): e is RPCClientError {
+  return e instanceof Error && e.name === 'RPCClientError' && typeof (e as RPCClientError).code === 'string'
+}
+
+/** Return the data of a successful result, or throw an {@link RPCClientError}. Bodies that are not results also throw. */
+export function unwrapResult<TData>(res: RPCResType<TData>, path: string): TData {
+  if (res?.ok === true) return res.data
+  throw createRPCClientError(res?.ok === false ? res : unexpectedResponse(), path)
+}
+
+/** Result used when the server answered with something other than a result, ex: a proxy's HTML error page. */
+function unexpectedResponse(): RPCErrorResult {
+  const code = 'RPC_BAD_GATEWAY'
+  return { ok: false, code, error: { code, message: 'Unexpected response', issues: [] } }
+}
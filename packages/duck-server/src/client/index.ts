@@ -1,2 +1,16 @@
+export { type Codec, cborCodec, jsonCodec, msgpackCodec } from '../server/serialization/codec'
+export { type DataTransformer, richTransformer } from '../server/serialization/transformer'
+export type { RefreshAuth } from './auth'
+export {
+  createRPCClientError,
+  isRPCClientError,
+  type RPCClientError,
+  type RPCErrorResult,
+  unwrapResult,
+} from './error'
+export { type ClientInterceptor, type InterceptorNext } from './interceptor'
 export * from './low-level-client'
 export * from './proxy-client'
+export { DEFAULT_RETRY_CODES, type RetryAttempt, type RetryOptions } from './retry'
+export * from './subscription'
+export * from './ws-client'
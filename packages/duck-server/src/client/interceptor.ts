@@ -0,0 +1,41 @@
+import type { RPCResType } from '../server/core/response'
+import type { TransportCall } from './low-level-client'
+
+/**
+ * Interceptor chain for the low-level client, the client-side counterpart of server middleware.
+ * Interceptors wrap queries and mutations in order, the first one outermost.
+ */
+
+/** Continue the chain, optionally with a changed call. Calling it again replays the call. */
+export type InterceptorNext = (call?: TransportCall) => Promise<RPCResType<unknown>>
+
+/**
+ * A client interceptor,
+ * ex: `{ onRequest: (call, next) => next({ ...call, headers: { ...call.headers, authorization } }) }`.
+ */
+export type ClientInterceptor = {
+  /**
+   * Wrap a call: change it before handing it to `next`, change the result `next` resolves with,
+   * or return a result without calling `next` at all.
+   */
+  onRequest?: (call: TransportCall, next: InterceptorNext) => Promise<RPCResType<unknown>>
+}
+
+/**
+ * Compose interceptors once per client. The returned function takes the call and the function that sends it,
+ * so per-call options can still shape how the end of the chain sends.
+ */
+export function composeInterceptors(
+  interceptors: ClientInterceptor[],
+): (call: TransportCall, send: (call: TransportCall) => Promise<RPCResType<unknown>>) => Promise<RPCResType<unknown>> {
+  const handlers = interceptors.flatMap((interceptor) => (interceptor.onRequest ? [interceptor.onRequest] : []))
+
+  return (call, send) => {
+    const dispatch = (i: number, current: TransportCall): Promise<RPCResType<unknown>> => {
+      const handler = handlers[i]
+      if (!handler) return send(current)
+      return handler(current, (next) => dispatch(i + 1, next ?? current))
+    }
+    return dispatch(0, call)
+  }
+}
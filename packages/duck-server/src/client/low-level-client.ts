@@ -1,82 +1,296 @@
-import { decode as cborDecode, encode as cborEncode } from 'cbor-x'
 import type { RPCResType } from '../server/core/response'
+import { TIMEOUT_HEADER } from '../server/http/deadline'
+import { type Codec, findCodec, getCodec, type ResponseFormat, resolveCodecs } from '../server/serialization/codec'
+import { acceptEncoding, readResponseBody } from '../server/serialization/compression'
+import { type DataTransformer, deserializeResults, usesTransformer } from '../server/serialization/transformer'
+import { createAuthRefresh, type RefreshAuth } from './auth'
+import { type BatchItem, type BatchOptions, type BatchResponse, createBatchScheduler } from './batch'
+import { setResponseStatus, unwrapResult } from './error'
+import { type ClientInterceptor, composeInterceptors } from './interceptor'
+import { type AttemptInfo, hasIdempotencyKey, IDEMPOTENCY_KEY_HEADER, type RetryOptions, withRetry } from './retry'
+import {
+  iterateSubscription,
+  openSubscription,
+  type ReconnectOptions,
+  type SubscribeOptions,
+  type SubscriptionTransport,
+  type Unsubscribable,
+} from './subscription'
 
 /**
  * Low-level RPC client that handles transport and serialization.
- * Returns RPCResType for all calls and never throws on RPC errors.
+ * Returns RPCResType for all calls and never throws on RPC errors, unless created with `mode: 'throw'`.
  */
 
-/** Supported wire formats for requests and responses. */
-export type ClientFormat = 'json' | 'cbor'
+/** Wire format for requests and responses: `json`, `cbor`, `msgpack` or the format of a codec in `codecs`. */
+export type ClientFormat = ResponseFormat
+/**
+ * How calls report RPC errors.
+ * - `result`: resolve with the `RPCResType` result (default).
+ * - `throw`: resolve with `data` and throw an `RPCClientError` for error results.
+ */
+export type ClientMode = 'result' | 'throw'
+/** What a call resolves with in a given mode. */
+export type CallResult<TData, TMode extends ClientMode> = TMode extends 'throw' ? TData : RPCResType<TData>
 /** Procedure dispatch type. */
 export type ProcedureType = 'query' | 'mutation'
 
+/** A single call handed to a transport. */
+export type TransportCall = {
+  path: string
+  type: ProcedureType
+  input: unknown
+  /** Client headers merged with per-call headers. */
+  headers: Record<string, string>
+  signal?: AbortSignal | undefined
+  /** Epoch ms after which the caller gives up, set when the call has a `timeoutMs`. */
+  deadline?: number | undefined
+}
+
+/** A subscription handed to a transport. */
+export type TransportSubscription = {
+  path: string
+  input: unknown
+  /** Client headers merged with per-subscription headers. */
+  headers: Record<string, string>
+}
+
+/**
+ * Pluggable transport that replaces HTTP for calls and subscriptions (ex: `createWSClient`).
+ * Transports resolve RPC errors as results and only reject on connection failures.
+ */
+export type RPCTransport = {
+  call: <TData>(op: TransportCall) => Promise<RPCResType<TData>>
+  subscribe: <TData>(op: TransportSubscription, options: SubscribeOptions<TData>) => Unsubscribable
+}
+
 /** Construction options for the RPC client. */
-export type ClientOptions = {
-  /** Base URL of the server, ex: http://localhost:3000. */
-  baseUrl: string
+export type ClientOptions<TMode extends ClientMode = ClientMode> = {
+  /** Base URL of the server, ex: http://localhost:3000. Required unless a `transport` is given. */
+  baseUrl?: string
   /** RPC endpoint path, default: "/rpc". */
   endpoint?: string
   /** Request/response format, default: "json". */
   format?: ClientFormat
+  /** Extra codecs, checked before the built-in JSON, CBOR and MessagePack ones. The server must register the same ones. */
+  codecs?: Codec[]
   /** Headers applied to every request. */
   headers?: Record<string, string>
   /** Custom fetch implementation (useful for tests). */
   fetch?: typeof fetch
+  /** Coalesce calls made in the same tick or window into batched requests (opt-in). */
+  batch?: BatchOptions
+  /** Reconnect policy for subscriptions, `false` disables reconnects. */
+  reconnect?: ReconnectOptions | false
+  /** Retry policy for queries and idempotent mutations (opt-in). */
+  retry?: RetryOptions
+  /** Interceptors wrapping every query and mutation, the first one outermost. Retries happen inside the chain. */
+  interceptors?: ClientInterceptor[]
+  /**
+   * Called once when calls fail with `RPC_UNAUTHORIZED`; the calls are replayed with the headers it resolves with.
+   * Calls made while it runs wait for it. Runs before the `interceptors`.
+   */
+  refreshAuth?: RefreshAuth
+  /** How queries and mutations report RPC errors, default: `'result'`. Interceptors always see results. */
+  mode?: TMode
+  /** Give up on queries and mutations after this many ms, retries included. No timeout by default. */
+  timeoutMs?: number
+  /** Custom transport used instead of HTTP (ex: a WebSocket client). */
+  transport?: RPCTransport
+  /** Transformer for inputs and result data in non-CBOR bodies, ex: `richTransformer`. Must match the server's. */
+  transformer?: DataTransformer
 }
 
+/** Options for iterating a subscription. */
+export type IterateOptions = Omit<SubscribeOptions<unknown>, 'onData' | 'onError' | 'onComplete'>
+
 /** Per-request options. */
 export type CallOptions = {
   /** Extra headers for a single call. */
   headers?: Record<string, string>
   /** Abort signal passed to fetch. */
   signal?: AbortSignal
+  /** Sent as the `Idempotency-Key` header, which lets the retry policy retry a mutation. */
+  idempotencyKey?: string
+  /** Retry policy override, `false` disables retries. */
+  retry?: RetryOptions | false
+  /** Timeout override for this call in ms. */
+  timeoutMs?: number
 }
 
 /**
  * Create a low-level RPC client that calls by dotted path.
  * Use this if you want string-based routing (ex: "upload.deleteBucket").
  */
-export function createRPCClient(opts: ClientOptions) {
+export function createRPCClient<TMode extends ClientMode = 'result'>(opts: ClientOptions<TMode>) {
+  if (!opts.baseUrl && !opts.transport) {
+    throw new Error('createRPCClient requires a baseUrl or a transport')
+  }
+
+  const baseUrl = opts.baseUrl ?? ''
+  const transport = opts.transport
   const fetcher = opts.fetch ?? fetch
-  const format = opts.format ?? 'json'
+  const codecs = resolveCodecs(opts.codecs)
+  const codec = getCodec(opts.format ?? 'json', codecs)
   const endpoint = opts.endpoint ?? '/rpc'
   const baseHeaders = opts.headers ?? {}
+  const maxUrlLength = opts.batch?.maxUrlLength ?? 2048
+  const transformer = opts.transformer
+
+  // URL inputs are always JSON; CBOR bodies carry rich types natively and skip the transformer.
+  const writeInput = (input: unknown, bodyFormat: ClientFormat = 'json') =>
+    transformer && usesTransformer(bodyFormat) && input !== undefined ? transformer.serialize(input) : input
+  const decode = async (res: Response) => {
+    const resCodec = findCodec(res.headers.get('content-type'), codecs)
+    const bytes = await readResponseBody(res)
+    if (!resCodec) return new TextDecoder().decode(bytes)
+    const body = resCodec.decode(bytes)
+    return usesTransformer(resCodec.format) ? deserializeResults(body, transformer) : body
+  }
+
+  /** Decode the result of a single call, keeping its HTTP error status for thrown errors. */
+  const decodeResult = async (res: Response) => {
+    const result = (await decode(res)) as RPCResType<unknown>
+    if (!res.ok) setResponseStatus(result, res.status)
+    return result
+  }
+
+  /** Decode a batch response; its Retry-After applies to every call in it. */
+  const decodeBatch = async (res: Response, count: number): Promise<BatchResponse> => ({
+    results: toBatchResults(await decode(res), count),
+    retryAfter: res.headers.get('retry-after'),
+  })
 
   /**
-   * Perform a raw RPC call using the resolved path.
-   * The `path` is a dotted procedure path, not a URL.
+   * Send a group of batched calls in one request.
+   * Query-only groups use GET while the URL fits, everything else is POSTed.
    */
-  const call = async <TData>(
-    path: string,
-    type: ProcedureType,
-    input?: unknown,
-    options: CallOptions = {},
-  ): Promise<RPCResType<TData>> => {
-    const url = joinUrl(opts.baseUrl, endpoint, path)
-    const base = { ...baseHeaders, ...options.headers }
+  const sendBatch = async (items: BatchItem[], signal: AbortSignal): Promise<BatchResponse> => {
+    const url = joinUrl(baseUrl, endpoint, '')
+    const headers = withDeadline(items[0]?.headers ?? baseHeaders, batchDeadline(items))
+
+    if (items.every((item) => item.type === 'query')) {
+      const queryUrl = buildBatchQueryUrl(
+        url,
+        items.map((item) => ({ ...item, input: writeInput(item.input) })),
+      )
+      if (queryUrl.length <= maxUrlLength) {
+        const res = await fetcher(queryUrl, { method: 'GET', headers: withAccept(headers, codec), signal })
+        return decodeBatch(res, items.length)
+      }
+    }
+
+    const payload = items.map(({ path, type, input }) => ({ path, type, input: writeInput(input, codec.format) }))
+    const res = await fetcher(url, {
+      method: 'POST',
+      headers: withPostHeaders(headers, codec),
+      body: codec.encode(payload) as BodyInit,
+      signal,
+    })
+    return decodeBatch(res, items.length)
+  }
+
+  const batcher = opts.batch ? createBatchScheduler(opts.batch, sendBatch) : null
+
+  /** Make one attempt of a call, noting response details the retry policy reads in `info`. */
+  const send = async (
+    { path, type, input, headers: callHeaders, signal, deadline }: TransportCall,
+    info: AttemptInfo,
+  ): Promise<RPCResType<unknown>> => {
+    if (transport) return transport.call({ path, type, input, headers: callHeaders, signal, deadline })
+    if (batcher) return batcher.enqueue({ path, type, input, headers: callHeaders, deadline }, signal, info)
+
+    const url = joinUrl(baseUrl, endpoint, path)
+    // Sent as the budget left for this attempt, so the server can stop once nobody waits for the answer.
+    const headers = withDeadline(callHeaders, deadline)
 
     if (type === 'query') {
-      const queryUrl = buildQueryUrl(url, type, input)
+      const queryUrl = buildQueryUrl(url, type, writeInput(input))
       const res = await fetcher(queryUrl, {
         method: 'GET',
-        headers: withAccept(base, format),
-        signal: options.signal ?? null,
+        headers: withAccept(headers, codec),
+        signal: signal ?? null,
       })
-      return (await decodeResponse(res)) as RPCResType<TData>
+      info.retryAfter = res.headers.get('retry-after')
+      return decodeResult(res)
     }
 
-    const payload = { type, input }
-    const body = format === 'cbor' ? (cborEncode(payload) as Uint8Array) : JSON.stringify(payload)
+    const payload = { type, input: writeInput(input, codec.format) }
 
     const res = await fetcher(url, {
       method: 'POST',
-      headers: withPostHeaders(base, format),
-      body: body as BodyInit,
-      signal: options.signal ?? null,
+      headers: withPostHeaders(headers, codec),
+      body: codec.encode(payload) as BodyInit,
+      signal: signal ?? null,
     })
 
-    return (await decodeResponse(res)) as RPCResType<TData>
+    info.retryAfter = res.headers.get('retry-after')
+    return decodeResult(res)
+  }
+
+  /** Send a call, retrying it under `policy` when that is safe. */
+  const sendWithRetry = (call: TransportCall, policy: RetryOptions | false | undefined) => {
+    // A mutation may have taken effect before failing, so it is only repeated when the server can deduplicate it.
+    const retryable = call.type === 'query' || hasIdempotencyKey(call.headers)
+    if (!policy || !retryable) return send(call, {})
+    return withRetry(policy, call, (info) => send(call, info))
+  }
+
+  const auth = opts.refreshAuth ? createAuthRefresh(opts.refreshAuth) : null
+  const intercept = composeInterceptors(
+    auth ? [auth.interceptor, ...(opts.interceptors ?? [])] : (opts.interceptors ?? []),
+  )
+
+  /**
+   * Perform a raw RPC call using the resolved path.
+   * The `path` is a dotted procedure path, not a URL.
+   */
+  const call = async <TData>(
+    path: string,
+    type: ProcedureType,
+    input?: unknown,
+    options: CallOptions = {},
+  ): Promise<CallResult<TData, TMode>> => {
+    const headers = {
+      ...baseHeaders,
+      ...options.headers,
+      ...(options.idempotencyKey ? { [IDEMPOTENCY_KEY_HEADER]: options.idempotencyKey } : {}),
+    }
+    const policy = options.retry ?? opts.retry
+    const timeoutMs = options.timeoutMs ?? opts.timeoutMs
+    const timeout = timeoutMs === undefined ? undefined : createCallTimeout(timeoutMs, options.signal)
+
+    try {
+      const res = await intercept(
+        { path, type, input, headers, signal: timeout?.signal ?? options.signal, deadline: timeout?.deadline },
+        // Timeouts become results here, so interceptors see them like any other error.
+        (next) =>
+          sendWithRetry(next, policy).catch((error: unknown) => {
+            if (timeout?.expired()) return timeoutResult(timeoutMs as number)
+            throw error
+          }),
+      )
+      return (opts.mode === 'throw' ? unwrapResult(res, path) : res) as CallResult<TData, TMode>
+    } finally {
+      timeout?.clear()
+    }
+  }
+  /** Build the SSE transport for a subscription path. */
+  const subscriptionTransport = (path: string, input: unknown): SubscriptionTransport => ({
+    fetch: fetcher,
+    url: buildQueryUrl(joinUrl(baseUrl, endpoint, path), 'subscription', writeInput(input)),
+    headers: { ...baseHeaders, ...auth?.headers() },
+    reconnect: opts.reconnect ?? {},
+    transformer,
+  })
+
+  /** Open a subscription over the custom transport, or over SSE. */
+  const subscribe = <TData>(path: string, input?: unknown, options: SubscribeOptions<TData> = {}): Unsubscribable => {
+    if (transport) {
+      const headers = { ...baseHeaders, ...auth?.headers(), ...options.headers }
+      return transport.subscribe<TData>({ path, input, headers }, options)
+    }
+    return openSubscription<TData>(subscriptionTransport(path, input), options)
   }
 
   return {
@@ -86,23 +300,58 @@ export function createRPCClient(opts: ClientOptions) {
     /** Convenience wrapper for mutation procedures. */
     mutation: <TData>(path: string, input?: unknown, options?: CallOptions) =>
       call<TData>(path, 'mutation', input, options),
+    /** Subscribe to a subscription procedure with callbacks. */
+    subscribe,
+    /** Iterate a subscription procedure's values as result frames. */
+    iterate: <TData>(path: string, input?: unknown, options?: IterateOptions): AsyncIterable<RPCResType<TData>> =>
+      iterateSubscription<TData>((subOptions) => subscribe(path, input, subOptions), options),
   }
 }
 
-/**
- * Decode a response body based on content-type.
- * Falls back to text when the content-type is unknown.
- */
-async function decodeResponse(res: Response): Promise<unknown> {
-  const contentType = res.headers.get('content-type')?.toLowerCase() ?? ''
-  if (contentType.includes('application/cbor')) {
-    const buf = await res.arrayBuffer()
-    return cborDecode(new Uint8Array(buf))
+/** Abort signal that fires after `timeoutMs` or when `parent` aborts, whichever comes first. */
+function createCallTimeout(timeoutMs: number, parent: AbortSignal | undefined) {
+  const controller = new AbortController()
+  let expired = false
+  const onAbort = () => controller.abort(parent?.reason)
+  const timer = setTimeout(() => {
+    expired = true
+    controller.abort(new DOMException(`Timed out after ${timeoutMs}ms`, 'TimeoutError'))
+  }, timeoutMs)
+  if (parent?.aborted) onAbort()
+  else parent?.addEventListener('abort', onAbort, { once: true })
+
+  return {
+    signal: controller.signal,
+    deadline: Date.now() + timeoutMs,
+    /** Whether the timeout, not the parent signal, ended the call. */
+    expired: () => expired,
+    clear: () => {
+      clearTimeout(timer)
+      parent?.removeEventListener('abort', onAbort)
+    },
   }
-  if (contentType.includes('application/json')) {
-    return res.json()
+}
+
+/** Error result of a call that ran out of time. */
+function timeoutResult(timeoutMs: number): RPCResType<never> {
+  const code = 'RPC_TIMEOUT'
+  return { ok: false, code, error: { code, message: `Timed out after ${timeoutMs}ms`, issues: [] } }
+}
+
+/** Add the time left before `deadline` as the timeout header. */
+function withDeadline(headers: Record<string, string>, deadline: number | undefined): Record<string, string> {
+  if (deadline === undefined) return headers
+  return { ...headers, [TIMEOUT_HEADER]: String(Math.max(0, deadline - Date.now())) }
+}
+
+/** The latest deadline of a batch, since the server should work as long as any call waits; none if one has none. */
+function batchDeadline(items: BatchItem[]): number | undefined {
+  let latest = 0
+  for (const item of items) {
+    if (item.deadline === undefined) return undefined
+    latest = Math.max(latest, item.deadline)
   }
-  return res.text()
+  return items.length ? latest : undefined
 }
 
 /** Join base URL, endpoint, and dotted path into a request URL. */
@@ -110,10 +359,10 @@ function joinUrl(baseUrl: string, endpoint: string, path: string): string {
   const base = baseUrl.replace(/\/+$/, '')
   const ep = endpoint.startsWith('/') ? endpoint : `/${endpoint}`
   const p = path.replace(/^\/+/, '')
-  return `${base}${ep}/${p}`
+  return p ? `${base}${ep}/${p}` : `${base}${ep}`
 }
 
-function buildQueryUrl(url: string, type: ProcedureType, input?: unknown): string {
+function buildQueryUrl(url: string, type: ProcedureType | 'subscription', input?: unknown): string {
   const next = new URL(url)
   next.searchParams.set('type', type)
   if (input !== undefined) {
@@ -122,15 +371,33 @@ function buildQueryUrl(url: string, type: ProcedureType, input?: unknown): strin
   return next.toString()
 }
 
-function withAccept(headers: Record<string, string>, format: ClientFormat): Record<string, string> {
-  return { ...headers, accept: format === 'cbor' ? 'application/cbor' : 'application/json' }
+/** Build a `?batch=1` GET URL carrying every query's path and input. */
+function buildBatchQueryUrl(url: string, items: BatchItem[]): string {
+  const next = new URL(url)
+  next.searchParams.set('batch', '1')
+  next.searchParams.set('input', JSON.stringify(items.map(({ path, input }) => ({ path, input }))))
+  return next.toString()
 }
 
-function withPostHeaders(headers: Record<string, string>, format: ClientFormat): Record<string, string> {
-  return {
-    ...headers,
-    ...(format === 'cbor'
-      ? { 'content-type': 'application/cbor', accept: 'application/cbor' }
-      : { 'content-type': 'application/json', accept: 'application/json' }),
-  }
+/**
+ * Split a batch response into per-call results.
+ * A non-array body is a failure of the whole batch and is handed to every call.
+ */
+function toBatchResults(body: unknown, count: number): RPCResType<unknown>[] {
+  if (Array.isArray(body)) return body as RPCResType<unknown>[]
+  return Array.from({ length: count }, () => body as RPCResType<unknown>)
+}
+
+function withAccept(headers: Record<string, string>, codec: Codec): Record<string, string> {
+  return { ...withAcceptEncoding(headers), accept: codec.contentType }
+}
+
+function withPostHeaders(headers: Record<string, string>, codec: Codec): Record<string, string> {
+  return { ...withAcceptEncoding(headers), 'content-type': codec.contentType, accept: codec.contentType }
+}
+
+/** Advertise the encodings `readResponseBody` can undo; browsers ignore it and send their own. */
+function withAcceptEncoding(headers: Record<string, string>): Record<string, string> {
+  const value = acceptEncoding()
+  return value ? { 'accept-encoding': value, ...headers } : headers
 }
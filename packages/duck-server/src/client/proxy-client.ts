@@ -1,44 +1,70 @@
 import type { AnyProc, ProcedureDef } from '../server/core/procedure'
-import type { RPCResType } from '../server/core/response'
-import type { AnyRPCRouter, RouterRecord, RPCRouter } from '../server/core/router'
-import { type CallOptions, type ClientOptions, createRPCClient } from './low-level-client'
+import type { ProcedureResponse, RPCResType } from '../server/core/response'
+import type { AnyRPCRouter, LazyRouter, RouterRecord, RPCRouter } from '../server/core/router'
+import {
+  type CallOptions,
+  type ClientMode,
+  type ClientOptions,
+  createRPCClient,
+  type IterateOptions,
+} from './low-level-client'
+import type { SubscribeOptions, Unsubscribable } from './subscription'
 
 /**
  * Proxy-based client that mirrors the router shape.
- * Property access builds a dotted path until `.query` or `.mutation` is called.
+ * Property access builds a dotted path until `.query`, `.mutation`, `.subscribe` or `.iterate` is called.
  */
 
 /** Infer procedure input type from a ProcedureDef. */
 type ProcInput<TProc> = TProc extends ProcedureDef<any, infer TInput, any, any> ? TInput : never
 /** Infer procedure output type from a ProcedureDef. */
 type ProcOutput<TProc> = TProc extends ProcedureDef<any, any, infer TOutput, any> ? TOutput : never
+/** Result of a query or mutation, narrowed to the procedure's declared errors. */
+type ProcResponse<TProc> =
+  TProc extends ProcedureDef<any, any, infer TOutput, any, any, infer TErrors>
+    ? ProcedureResponse<TOutput, TErrors>
+    : never
+/** What a query or mutation resolves with: the narrowed result, or the output in `throw` mode. */
+type ProcCallResult<TProc, TMode extends ClientMode> = TMode extends 'throw' ? ProcOutput<TProc> : ProcResponse<TProc>
 
-/** Map a procedure to its query/mutation call shape. */
-type ProcClient<TProc extends AnyProc> = TProc['_type'] extends 'query'
+/** Map a procedure to its query/mutation/subscription call shape. */
+type ProcClient<TProc extends AnyProc, TMode extends ClientMode> = TProc['_type'] extends 'query'
   ? {
-      query: (input: ProcInput<TProc>, options?: CallOptions) => Promise<RPCResType<ProcOutput<TProc>>>
-    }
-  : {
-      mutation: (input: ProcInput<TProc>, options?: CallOptions) => Promise<RPCResType<ProcOutput<TProc>>>
+      query: (input: ProcInput<TProc>, options?: CallOptions) => Promise<ProcCallResult<TProc, TMode>>
     }
+  : TProc['_type'] extends 'mutation'
+    ? {
+        mutation: (input: ProcInput<TProc>, options?: CallOptions) => Promise<ProcCallResult<TProc, TMode>>
+      }
+    : {
+        subscribe: (input: ProcInput<TProc>, options: SubscribeOptions<ProcOutput<TProc>>) => Unsubscribable
+        iterate: (input: ProcInput<TProc>, options?: IterateOptions) => AsyncIterable<RPCResType<ProcOutput<TProc>>>
+      }
 
 /** Recursively map a router record to nested client nodes. */
-type RouterClient<TRecord extends RouterRecord> = {
+type RouterClient<TRecord extends RouterRecord, TMode extends ClientMode> = {
   [K in keyof TRecord]: TRecord[K] extends AnyProc
-    ? ProcClient<TRecord[K]>
+    ? ProcClient<TRecord[K], TMode>
     : TRecord[K] extends RPCRouter<infer R>
-      ? RouterClient<R>
-      : never
+      ? RouterClient<R, TMode>
+      : TRecord[K] extends LazyRouter<RPCRouter<infer R>>
+        ? RouterClient<R, TMode>
+        : never
 }
 
-/** Typed proxy client derived from a router definition. */
-export type RPCProxyClient<TRouter extends AnyRPCRouter> = TRouter extends RPCRouter<infer R> ? RouterClient<R> : never
+/** Typed proxy client derived from a router definition. Pass `'throw'` as `TMode` for `mode: 'throw'` clients. */
+export type RPCProxyClient<
+  TRouter extends AnyRPCRouter,
+  TMode extends ClientMode = 'result',
+> = TRouter extends RPCRouter<infer R> ? RouterClient<R, TMode> : never
 
 /**
  * Create a tRPC-style proxy client (ex: client.user.get.query).
- * The proxy returns nested objects until `query` or `mutation` is accessed.
+ * The proxy returns nested objects until a call method (`query`, `mutation`, `subscribe`, `iterate`) is accessed.
  */
-export function createRPCProxyClient<TRouter extends AnyRPCRouter>(opts: ClientOptions): RPCProxyClient<TRouter> {
+export function createRPCProxyClient<TRouter extends AnyRPCRouter, TMode extends ClientMode = 'result'>(
+  opts: ClientOptions<TMode>,
+): RPCProxyClient<TRouter, TMode> {
   const client = createRPCClient(opts)
 
   // Proxy builds up dotted paths at property access time.
@@ -53,6 +79,13 @@ export function createRPCProxyClient<TRouter extends AnyRPCRouter>(opts: ClientO
           if (prop === 'mutation') {
             return (input?: unknown, options?: CallOptions) => client.mutation(path.join('.'), input, options)
           }
+          if (prop === 'subscribe') {
+            return (input?: unknown, options?: SubscribeOptions<unknown>) =>
+              client.subscribe(path.join('.'), input, options)
+          }
+          if (prop === 'iterate') {
+            return (input?: unknown, options?: IterateOptions) => client.iterate(path.join('.'), input, options)
+          }
           // Prevent Promise-like behavior when awaited accidentally.
           if (prop === 'then') return undefined
           if (prop === Symbol.toStringTag) return 'RPCProxyClient'
@@ -61,5 +94,5 @@ export function createRPCProxyClient<TRouter extends AnyRPCRouter>(opts: ClientO
       },
     )
 
-  return buildProxy([]) as RPCProxyClient<TRouter>
+  return buildProxy([]) as RPCProxyClient<TRouter, TMode>
 }
@@ -0,0 +1,126 @@
+import type { RPCResType } from '../server/core/response'
+
+/**
+ * Retry policy for the low-level client.
+ * Network failures and transient RPC codes are retried with jittered exponential backoff.
+ */
+
+/** Retry policy for calls. Queries are retried; mutations only when they carry an idempotency key. */
+export type RetryOptions = {
+  /** Maximum retries after the first attempt, default: 3. */
+  retries?: number
+  /** Delay cap before the first retry in ms, default: 300. Doubles on each retry; delays are random below it. */
+  baseDelayMs?: number
+  /** Upper bound for any delay in ms, default: 10000. A longer `Retry-After` ends the retries. */
+  maxDelayMs?: number
+  /** Result codes worth retrying, default: {@link DEFAULT_RETRY_CODES}. */
+  codes?: readonly string[]
+  /** Called after every attempt, including the first and the last. */
+  onAttempt?: (attempt: RetryAttempt) => void
+}
+
+/** One attempt of a call, as reported to `onAttempt`. */
+export type RetryAttempt = {
+  path: string
+  type: 'query' | 'mutation'
+  /** 1 for the first attempt. */
+  attempt: number
+  /** The decoded result, when the server answered. */
+  result?: RPCResType<unknown>
+  /** The failure, when the request did not complete. */
+  error?: unknown
+  /** Delay before the next attempt in ms, `undefined` when this attempt is the last. */
+  retryInMs: number | undefined
+}
+
+/** Response details an attempt hands back besides its result. */
+export type AttemptInfo = {
+  /** The response's `Retry-After` header. */
+  retryAfter?: string | null
+}
+
+/** Result codes retried by default. */
+export const DEFAULT_RETRY_CODES = Object.freeze([
+  'RPC_SERVICE_UNAVAILABLE',
+  'RPC_GATEWAY_TIMEOUT',
+  'RPC_TOO_MANY_REQUESTS',
+] as const)
+
+/** Header that marks a mutation as safe to retry. */
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key'
+
+/**
+ * Run `attempt` until it settles with a result that is not worth retrying, or the retries run out.
+ * The last failure is rethrown; aborting `signal` stops right away.
+ */
+export async function withRetry<TData>(
+  policy: RetryOptions,
+  call: { path: string; type: 'query' | 'mutation'; signal?: AbortSignal | undefined },
+  attempt: (info: AttemptInfo) => Promise<RPCResType<TData>>,
+): Promise<RPCResType<TData>> {
+  const retries = policy.retries ?? 3
+  const codes: readonly string[] = policy.codes ?? DEFAULT_RETRY_CODES
+
+  for (let n = 1; ; n++) {
+    const info: AttemptInfo = {}
+    let outcome: { result: RPCResType<TData> } | { error: unknown }
+    try {
+      outcome = { result: await attempt(info) }
+    } catch (error) {
+      if (call.signal?.aborted) throw error
+      outcome = { error }
+    }
+
+    const retryable = 'error' in outcome || (outcome.result.ok === false && codes.includes(outcome.result.code))
+    const retryInMs = retryable && n <= retries ? retryDelay(policy, n, info.retryAfter) : undefined
+    policy.onAttempt?.({ path: call.path, type: call.type, attempt: n, ...outcome, retryInMs })
+
+    if (retryInMs === undefined) {
+      if ('error' in outcome) throw outcome.error
+      return outcome.result
+    }
+    await sleep(retryInMs, call.signal)
+  }
+}
+
+/** Whether `headers` carry an idempotency key, in any letter case. */
+export function hasIdempotencyKey(headers: Record<string, string>): boolean {
+  return Object.keys(headers).some((key) => key.toLowerCase() === IDEMPOTENCY_KEY_HEADER)
+}
+
+/** Delay before retry number `retry`: `Retry-After` when the server sent one, full jitter otherwise. */
+function retryDelay(policy: RetryOptions, retry: number, retryAfter: string | null | undefined): number | undefined {
+  const maxDelayMs = policy.maxDelayMs ?? 10_000
+  const after = parseRetryAfter(retryAfter)
+  if (after !== undefined) return after <= maxDelayMs ? after : undefined
+  const cap = Math.min(maxDelayMs, (policy.baseDelayMs ?? 300) * 2 ** (retry - 1))
+  return Math.round(Math.random() * cap)
+}
+
+/** Parse `Retry-After` as delay seconds or an HTTP date, in ms. */
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  const trimmed = value?.trim()
+  if (!trimmed) return undefined
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) * 1000
+  const date = Date.parse(trimmed)
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now())
+}
+
+/** Wait `ms`, rejecting with the abort reason if `signal` fires first. */
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
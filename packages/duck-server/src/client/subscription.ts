@@ -0,0 +1,304 @@
+import type { RPCCode } from '../server/core/codes'
+import type { RPCResType } from '../server/core/response'
+import type { ProblemDetails } from '../server/http/problem'
+import { jsonCodec } from '../server/serialization/codec'
+import { type DataTransformer, deserializeResults } from '../server/serialization/transformer'
+
+/**
+ * Subscription client over Server-Sent Events.
+ * Uses fetch instead of EventSource so custom headers, CBOR-free JSON frames and
+ * custom fetch implementations all keep working.
+ */
+
+/** Reconnect policy for dropped subscription streams. */
+export type ReconnectOptions = {
+  /** Maximum reconnect attempts in a row, default: Infinity. */
+  retries?: number
+  /** Delay before the first reconnect in ms, default: 500. Doubles on each attempt. */
+  baseDelayMs?: number
+  /** Upper bound for the reconnect delay in ms, default: 30000. */
+  maxDelayMs?: number
+}
+
+/** Callbacks and options for a single subscription. */
+export type SubscribeOptions<TData> = {
+  /** Called for every value the server emits. */
+  onData?: (data: TData, meta: { id: string | undefined }) => void
+  /** Called once with the error that ended the subscription. */
+  onError?: (error: RPCResType<never>) => void
+  /** Called when the server ends the stream normally. */
+  onComplete?: () => void
+  /** Aborting the signal closes the stream. */
+  signal?: AbortSignal
+  /** Extra headers for this subscription. */
+  headers?: Record<string, string>
+  /** Resume after this event id on the first connection. */
+  lastEventId?: string
+  /** Reconnect policy override, `false` disables reconnects. */
+  reconnect?: ReconnectOptions | false
+}
+
+/** Handle returned by `subscribe`. */
+export type Unsubscribable = {
+  unsubscribe: () => void
+}
+
+/** A parsed SSE message. */
+export type SSEMessage = {
+  event: string
+  data: string
+  id: string | undefined
+}
+
+/** Everything a subscription needs from the owning client. */
+export type SubscriptionTransport = {
+  fetch: typeof fetch
+  url: string
+  headers: Record<string, string>
+  reconnect: ReconnectOptions | false
+  /** Restores event data encoded by the server's transformer. */
+  transformer?: DataTransformer | undefined
+}
+
+/** Parse a `text/event-stream` body into messages. */
+export async function* parseSSEStream(body: ReadableStream<Uint8Array>): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read()
+      if (done) return
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n?/g, '\n')
+
+      let end = buffer.indexOf('\n\n')
+      while (end >= 0) {
+        const msg = parseSSEBlock(buffer.slice(0, end))
+        buffer = buffer.slice(end + 2)
+        if (msg) yield msg
+        end = buffer.indexOf('\n\n')
+      }
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/** Parse one SSE block. Comment-only blocks return null. */
+function parseSSEBlock(block: string): SSEMessage | null {
+  let event = 'message'
+  let id: string | undefined
+  const data: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue
+    const colon = line.indexOf(':')
+    const field = colon < 0 ? line : line.slice(0, colon)
+    let value = colon < 0 ? '' : line.slice(colon + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    if (field === 'event') event = value
+    else if (field === 'id') id = value
+    else if (field === 'data') data.push(value)
+  }
+
+  if (!data.length && event === 'message') return null
+  return { event, data: data.join('\n'), id }
+}
+
+/**
+ * Open a subscription and keep it alive.
+ * Dropped connections reconnect with exponential backoff and resume from the last event id;
+ * RPC error frames and failed starts end the subscription.
+ */
+export function openSubscription<TData>(
+  transport: SubscriptionTransport,
+  options: SubscribeOptions<TData>,
+): Unsubscribable {
+  const controller = new AbortController()
+  const policy = options.reconnect ?? transport.reconnect
+  let lastEventId = options.lastEventId
+  let finished = false
+  let attempt = 0
+
+  const finish = (fn?: () => void) => {
+    if (finished) return
+    finished = true
+    options.signal?.removeEventListener('abort', unsubscribe)
+    controller.abort()
+    fn?.()
+  }
+
+  const unsubscribe = () => finish()
+  if (options.signal?.aborted) finish()
+  else options.signal?.addEventListener('abort', unsubscribe, { once: true })
+
+  /** Run one connection. Resolves `true` when the stream ended for good. */
+  const connect = async (): Promise<boolean> => {
+    const headers: Record<string, string> = {
+      ...transport.headers,
+      ...options.headers,
+      accept: 'text/event-stream',
+    }
+    if (lastEventId !== undefined) headers['last-event-id'] = lastEventId
+
+    const res = await transport.fetch(transport.url, { method: 'GET', headers, signal: controller.signal })
+    const contentType = res.headers.get('content-type')?.toLowerCase() ?? ''
+
+    if (!contentType.includes('text/event-stream') || !res.body) {
+      // The subscription was rejected before streaming (auth, validation, not found).
+      // Any JSON body, including `application/problem+json` error responses.
+      const body = jsonCodec.canDecode(contentType)
+        ? deserializeResults(await res.json(), transport.transformer)
+        : await res.text()
+      finish(() => options.onError?.(toErrorResult(body, res.status)))
+      return true
+    }
+
+    for await (const msg of parseSSEStream(res.body)) {
+      if (finished) return true
+      if (msg.id !== undefined) lastEventId = msg.id
+      attempt = 0
+
+      if (msg.event === 'data') {
+        const frame = deserializeResults(JSON.parse(msg.data), transport.transformer) as RPCResType<TData>
+        if (frame.ok) options.onData?.(frame.data, { id: msg.id })
+        continue
+      }
+      if (msg.event === 'error') {
+        const frame = deserializeResults(JSON.parse(msg.data), transport.transformer) as RPCResType<never>
+        finish(() => options.onError?.(frame))
+        return true
+      }
+      if (msg.event === 'complete') {
+        finish(() => options.onComplete?.())
+        return true
+      }
+    }
+    return false
+  }
+
+  const run = async () => {
+    while (!finished) {
+      let failure: unknown = new Error('Subscription stream closed')
+      try {
+        if (await connect()) return
+      } catch (error) {
+        failure = error
+      }
+      if (finished) return
+
+      // The stream dropped without `complete`; back off and resume from the last event id.
+      if (!policy || attempt >= (policy.retries ?? Number.POSITIVE_INFINITY)) {
+        finish(() => options.onError?.(toNetworkError(failure)))
+        return
+      }
+      const delay = Math.min(policy.maxDelayMs ?? 30_000, (policy.baseDelayMs ?? 500) * 2 ** attempt)
+      attempt += 1
+      await sleep(delay, controller.signal)
+    }
+  }
+
+  void run()
+  return { unsubscribe }
+}
+
+/**
+ * Expose a subscription as an async iterable of result frames.
+ * The final frame is the error result when the subscription fails; breaking out of the loop unsubscribes.
+ */
+export function iterateSubscription<TData>(
+  subscribe: (options: SubscribeOptions<TData>) => Unsubscribable,
+  options: Omit<SubscribeOptions<TData>, 'onData' | 'onError' | 'onComplete'> = {},
+): AsyncIterable<RPCResType<TData>> {
+  return {
+    [Symbol.asyncIterator]() {
+      const queue: RPCResType<TData>[] = []
+      let done = false
+      let wake: (() => void) | undefined
+
+      const push = (frame?: RPCResType<TData>) => {
+        if (frame) queue.push(frame)
+        wake?.()
+        wake = undefined
+      }
+
+      const sub = subscribe({
+        ...options,
+        onData: (data) => push({ ok: true, data, code: 'RPC_OK' }),
+        onError: (error) => {
+          done = true
+          push(error)
+        },
+        onComplete: () => {
+          done = true
+          push()
+        },
+      })
+      options.signal?.addEventListener('abort', () => {
+        done = true
+        push()
+      })
+
+      return {
+        async next(): Promise<IteratorResult<RPCResType<TData>>> {
+          for (;;) {
+            const frame = queue.shift()
+            if (frame) return { value: frame, done: false }
+            if (done) return { value: undefined, done: true }
+            await new Promise<void>((resolve) => {
+              wake = resolve
+            })
+          }
+        },
+        async return(): Promise<IteratorResult<RPCResType<TData>>> {
+          done = true
+          sub.unsubscribe()
+          push()
+          return { value: undefined, done: true }
+        },
+      }
+    },
+  }
+}
+
+/** Wait for `ms`, resolving early when the signal aborts. */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms)
+    function done() {
+      clearTimeout(timer)
+      signal.removeEventListener('abort', done)
+      resolve()
+    }
+    signal.addEventListener('abort', done, { once: true })
+  })
+}
+
+/** Normalize a non-stream response body into an error result. */
+function toErrorResult(body: unknown, status: number): RPCResType<never> {
+  if (body && typeof body === 'object' && (body as RPCResType<never>).ok === false) return body as RPCResType<never>
+  if (isProblemDetails(body)) {
+    const { detail, issues } = body
+    const code = body.code as RPCCode
+    return { ok: false, code, error: { code, message: detail, issues: issues ?? [] } }
+  }
+  const code = 'RPC_BAD_GATEWAY'
+  return { ok: false, code, error: { code, message: `Unexpected subscription response (${status})`, issues: [] } }
+}
+
+/** Whether a body is RFC 9457 problem details carrying an RPC code. */
+function isProblemDetails(body: unknown): body is ProblemDetails {
+  const problem = body as ProblemDetails | null
+  return (
+    !!problem && typeof problem === 'object' && typeof problem.code === 'string' && typeof problem.detail === 'string'
+  )
+}
+
+/** Wrap a connection failure into an error result. */
+function toNetworkError(error: unknown): RPCResType<never> {
+  const code = 'RPC_SERVICE_UNAVAILABLE'
+  const message = error instanceof Error ? error.message : 'Subscription connection failed'
+  return { ok: false, code, error: { code, message, issues: [] } }
+}
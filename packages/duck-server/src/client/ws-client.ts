@@ -0,0 +1,276 @@
+import type { RPCResType } from '../server/core/response'
+import type { WSClientMessage, WSServerMessage } from '../server/http/ws'
+import { type Codec, getCodec, resolveCodecs } from '../server/serialization/codec'
+import { type DataTransformer, deserializeResults, usesTransformer } from '../server/serialization/transformer'
+import type { ClientFormat, RPCTransport, TransportCall, TransportSubscription } from './low-level-client'
+import type { ReconnectOptions, SubscribeOptions, Unsubscribable } from './subscription'
+
+/**
+ * WebSocket transport for `createRPCClient` / `createRPCProxyClient`.
+ * Multiplexes calls and subscriptions over one lazily opened socket.
+ */
+
+/** The subset of the WebSocket API the transport relies on. */
+export interface WebSocketLike {
+  binaryType: string
+  readonly readyState: number
+  send(data: string | Uint8Array): void
+  close(code?: number, reason?: string): void
+  onopen: ((ev: unknown) => void) | null
+  onmessage: ((ev: { data: unknown }) => void) | null
+  onclose: ((ev: unknown) => void) | null
+  onerror: ((ev: unknown) => void) | null
+}
+
+/** Constructor for {@link WebSocketLike} sockets. */
+export type WebSocketFactory = new (url: string) => WebSocketLike
+
+/** Construction options for the WebSocket client. */
+export type WSClientOptions = {
+  /** Socket URL, ex: ws://localhost:3000/rpc/ws. */
+  url: string
+  /**
+   * Message format, default: "json" (text frames). "cbor", "msgpack" and other binary codecs use binary frames;
+   * formats other than "cbor" need the same `binaryCodec` on the server.
+   */
+  format?: ClientFormat
+  /** Extra codecs selectable through `format`; the server's `binaryCodec` must match. */
+  codecs?: Codec[]
+  /** WebSocket implementation, default: `globalThis.WebSocket`. */
+  WebSocket?: WebSocketFactory
+  /** Reconnect policy used while subscriptions are open, `false` disables reconnects. */
+  reconnect?: ReconnectOptions | false
+  /** Transformer for inputs and result data in non-CBOR frames. Must match the server's. */
+  transformer?: DataTransformer
+}
+
+/** WebSocket transport with an explicit `close`. */
+export type WSClient = RPCTransport & {
+  /** Close the socket and end every pending call and subscription. */
+  close: () => void
+}
+
+type PendingCall = {
+  resolve: (res: RPCResType<unknown>) => void
+  reject: (reason: unknown) => void
+}
+
+type ActiveSubscription = {
+  op: TransportSubscription
+  options: SubscribeOptions<any>
+  lastEventId: string | undefined
+}
+
+/** Create a WebSocket transport. */
+export function createWSClient(opts: WSClientOptions): WSClient {
+  const codec = getCodec(opts.format ?? 'json', resolveCodecs(opts.codecs))
+  const Socket = opts.WebSocket ?? (globalThis as { WebSocket?: WebSocketFactory }).WebSocket
+  if (!Socket) throw new Error('createWSClient requires a WebSocket implementation')
+
+  const calls = new Map<number, PendingCall>()
+  const subscriptions = new Map<number, ActiveSubscription>()
+  const outbox: (string | Uint8Array)[] = []
+  let socket: WebSocketLike | null = null
+  let open = false
+  let closedByUser = false
+  let attempt = 0
+  let nextId = 1
+
+  const encode = (msg: WSClientMessage): string | Uint8Array => {
+    const { transformer } = opts
+    if (!usesTransformer(codec.format) || !transformer || !('input' in msg) || msg.input === undefined) {
+      return codec.encode(msg)
+    }
+    return codec.encode({ ...msg, input: transformer.serialize(msg.input) })
+  }
+
+  // The server answers in the format of the message: text frames are JSON, binary frames use our codec.
+  const decode = (data: unknown): WSServerMessage => {
+    if (typeof data === 'string') {
+      const msg = JSON.parse(data) as WSServerMessage
+      if (!('result' in msg)) return msg
+      return { ...msg, result: deserializeResults(msg.result, opts.transformer) } as WSServerMessage
+    }
+    const bytes = ArrayBuffer.isView(data)
+      ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+      : new Uint8Array(data as ArrayBuffer)
+    const msg = codec.decode(bytes) as WSServerMessage
+    if (!('result' in msg) || !usesTransformer(codec.format)) return msg
+    return { ...msg, result: deserializeResults(msg.result, opts.transformer) } as WSServerMessage
+  }
+
+  const send = (msg: WSClientMessage) => {
+    if (closedByUser) return
+    const frame = encode(msg)
+    if (open && socket) socket.send(frame)
+    else {
+      outbox.push(frame)
+      connect()
+    }
+  }
+
+  const subscribeMessage = (id: number, sub: ActiveSubscription): WSClientMessage => {
+    const msg: WSClientMessage = { id, method: 'subscription', path: sub.op.path, input: sub.op.input }
+    if (Object.keys(sub.op.headers).length) msg.headers = sub.op.headers
+    if (sub.lastEventId !== undefined) msg.lastEventId = sub.lastEventId
+    return msg
+  }
+
+  const endSubscription = (id: number, fn: (sub: ActiveSubscription) => void) => {
+    const sub = subscriptions.get(id)
+    if (!sub) return
+    subscriptions.delete(id)
+    fn(sub)
+  }
+
+  const onMessage = (msg: WSServerMessage) => {
+    const id = msg.id as number
+    const pending = calls.get(id)
+    if (pending) {
+      calls.delete(id)
+      if (msg.type === 'result') pending.resolve(msg.result)
+      return
+    }
+
+    const sub = subscriptions.get(id)
+    if (!sub) return
+    attempt = 0
+
+    if (msg.type === 'data') {
+      if (msg.eventId !== undefined) sub.lastEventId = msg.eventId
+      if (msg.result.ok) sub.options.onData?.(msg.result.data, { id: msg.eventId })
+    } else if (msg.type === 'complete') {
+      endSubscription(id, (s) => s.options.onComplete?.())
+    } else {
+      // `error`, or a `result` for a subscription that failed to start.
+      const result = msg.result as RPCResType<never>
+      endSubscription(id, (s) => s.options.onError?.(result))
+    }
+  }
+
+  const onClose = () => {
+    open = false
+    socket = null
+    // Frames that never went out die with the connection: their calls are rejected below, and
+    // subscriptions are resent from `subscriptions` on reconnect.
+    outbox.length = 0
+
+    for (const pending of calls.values()) pending.reject(new Error('WebSocket connection closed'))
+    calls.clear()
+    if (closedByUser || !subscriptions.size) return
+
+    const policy = opts.reconnect ?? {}
+    if (!policy || attempt >= (policy.retries ?? Number.POSITIVE_INFINITY)) {
+      const error = closedResult('WebSocket connection closed')
+      for (const id of [...subscriptions.keys()]) endSubscription(id, (s) => s.options.onError?.(error))
+      return
+    }
+
+    // Reopen and resume every subscription from its last event id.
+    const delay = Math.min(policy.maxDelayMs ?? 30_000, (policy.baseDelayMs ?? 500) * 2 ** attempt)
+    attempt += 1
+    setTimeout(() => {
+      if (closedByUser || !subscriptions.size) return
+      for (const [id, sub] of subscriptions) outbox.push(encode(subscribeMessage(id, sub)))
+      connect()
+    }, delay)
+  }
+
+  const connect = () => {
+    if (socket || closedByUser) return
+    const ws = new Socket(opts.url)
+    socket = ws
+    ws.binaryType = 'arraybuffer'
+    ws.onopen = () => {
+      open = true
+      for (const frame of outbox.splice(0)) ws.send(frame)
+    }
+    ws.onmessage = (ev) => {
+      try {
+        onMessage(decode(ev.data))
+      } catch {
+        // Ignore frames that are not RPC messages.
+      }
+    }
+    ws.onclose = () => {
+      if (socket === ws) onClose()
+    }
+    ws.onerror = () => {}
+  }
+
+  const call = <TData>(op: TransportCall): Promise<RPCResType<TData>> => {
+    return new Promise<RPCResType<unknown>>((resolve, reject) => {
+      if (op.signal?.aborted) {
+        reject(op.signal.reason)
+        return
+      }
+      if (closedByUser) {
+        reject(new Error('WebSocket client closed'))
+        return
+      }
+
+      const id = nextId++
+      const onAbort = () => {
+        calls.delete(id)
+        reject(op.signal?.reason)
+      }
+      op.signal?.addEventListener('abort', onAbort, { once: true })
+      calls.set(id, {
+        resolve: (res) => {
+          op.signal?.removeEventListener('abort', onAbort)
+          resolve(res)
+        },
+        reject: (reason) => {
+          op.signal?.removeEventListener('abort', onAbort)
+          reject(reason)
+        },
+      })
+
+      const msg: WSClientMessage = { id, method: op.type, path: op.path, input: op.input }
+      if (Object.keys(op.headers).length) msg.headers = op.headers
+      // Sent as the budget left, so the server can stop once nobody waits for the answer.
+      if (op.deadline !== undefined) msg.timeoutMs = Math.max(0, op.deadline - Date.now())
+      send(msg)
+    }) as Promise<RPCResType<TData>>
+  }
+
+  const subscribe = <TData>(op: TransportSubscription, options: SubscribeOptions<TData>): Unsubscribable => {
+    const id = nextId++
+    const sub: ActiveSubscription = { op, options, lastEventId: options.lastEventId }
+
+    const unsubscribe = () => {
+      options.signal?.removeEventListener('abort', unsubscribe)
+      if (!subscriptions.delete(id)) return
+      if (open) send({ id, method: 'subscription.stop' })
+      // The subscribe frame still waits in the outbox of the opening socket, so the stop goes out right behind it.
+      else if (socket) outbox.push(encode({ id, method: 'subscription.stop' }))
+    }
+
+    if (options.signal?.aborted) return { unsubscribe }
+    if (closedByUser) {
+      options.onError?.(closedResult('WebSocket client closed'))
+      return { unsubscribe }
+    }
+    options.signal?.addEventListener('abort', unsubscribe, { once: true })
+
+    subscriptions.set(id, sub)
+    send(subscribeMessage(id, sub))
+    return { unsubscribe }
+  }
+
+  const close = () => {
+    closedByUser = true
+    subscriptions.clear()
+    outbox.length = 0
+    socket?.close()
+    if (socket) onClose()
+  }
+
+  return { call, subscribe, close }
+}
+
+/** Error result ending subscriptions when the socket is gone for good. */
+function closedResult(message: string): RPCResType<never> {
+  const code = 'RPC_SERVICE_UNAVAILABLE'
+  return { ok: false, code, error: { code, message, issues: [] } }
+}
@@ -0,0 +1,149 @@
+/**
+ * Tests for the in-process caller.
+ *
+ * Covers:
+ * - Nested procedure calls
+ * - Middleware and input validation
+ * - Context factories
+ * - Throw mode
+ * - Subscriptions
+ * - Lazy routers
+ * - Error hooks
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { createCaller } from '../caller'
+import { createRPCError, isRPCError } from '../error'
+import { createProcedure } from '../procedure'
+import { RPCRes as R } from '../response'
+import { createRouter, lazy } from '../router'
+
+type Ctx = { userId: string | null }
+
+const authed = createProcedure<Ctx>().use(async ({ ctx, next }) => {
+  if (!ctx.userId) throw createRPCError({ code: 'RPC_UNAUTHORIZED', message: 'Sign in first' })
+  return next({ ctx })
+})
+
+const router = createRouter({
+  health: createProcedure<Ctx>().query(async () => R.ok('ok', 'RPC_OK')),
+  user: createRouter({
+    get: createProcedure<Ctx>()
+      .input(z.object({ id: z.string() }))
+      .query(async ({ input }) => R.ok({ id: input.id, name: 'duck' }, 'RPC_OK')),
+    me: authed.query(async ({ ctx }) => R.ok({ id: ctx.userId }, 'RPC_OK')),
+    rename: authed
+      .input(z.object({ name: z.string().min(1) }))
+      .mutation(async ({ input }) => R.ok({ name: input.name }, 'RPC_OK')),
+  }),
+  ticks: createProcedure<Ctx>().subscription(async () =>
+    (async function* () {
+      yield 1
+      yield 2
+    })(),
+  ),
+})
+
+describe('createCaller', () => {
+  it('should call nested queries and mutations', async () => {
+    const caller = createCaller(router, { userId: 'u1' })
+
+    expect(await caller.health.query(undefined)).toEqual({ ok: true, data: 'ok', code: 'RPC_OK' })
+    const user = await caller.user.get.query({ id: '42' })
+    expect(user.ok && user.data).toEqual({ id: '42', name: 'duck' })
+    const renamed = await caller.user.rename.mutation({ name: 'goose' })
+    expect(renamed.ok && renamed.data).toEqual({ name: 'goose' })
+  })
+
+  it('should run middleware and input validation', async () => {
+    const caller = createCaller(router, { userId: null })
+
+    const me = await caller.user.me.query(undefined)
+    expect(me.ok).toBe(false)
+    if (!me.ok) expect(me.code).toBe('RPC_UNAUTHORIZED')
+
+    const bad = await createCaller(router, { userId: 'u1' }).user.get.query({ id: 1 } as never)
+    expect(bad.ok).toBe(false)
+    if (!bad.ok) expect(bad.code).toBe('RPC_BAD_REQUEST')
+  })
+
+  it('should resolve a context factory on every call', async () => {
+    let calls = 0
+    const caller = createCaller(router, async () => {
+      calls++
+      return { userId: `u${calls}` }
+    })
+
+    const first = await caller.user.me.query(undefined)
+    const second = await caller.user.me.query(undefined)
+    expect(first.ok && first.data).toEqual({ id: 'u1' })
+    expect(second.ok && second.data).toEqual({ id: 'u2' })
+  })
+
+  it('should report unknown paths and type mismatches', async () => {
+    const caller = createCaller(router, { userId: 'u1' }) as any
+
+    const missing = await caller.user.nope.query(undefined)
+    expect(missing.ok).toBe(false)
+    expect(missing.code).toBe('RPC_NOT_FOUND')
+
+    const mismatch = await caller.user.rename.query({ name: 'x' })
+    expect(mismatch.ok).toBe(false)
+    expect(mismatch.code).toBe('RPC_BAD_REQUEST')
+  })
+
+  it('should unwrap data and throw RPCError in throw mode', async () => {
+    const caller = createCaller(router, { userId: null }, { mode: 'throw' })
+
+    const user = await caller.user.get.query({ id: '7' })
+    expect(user.name).toBe('duck')
+
+    const err = await caller.user.me.query(undefined).catch((e: unknown) => e)
+    expect(isRPCError(err)).toBe(true)
+    if (isRPCError(err)) {
+      expect(err.code).toBe('RPC_UNAUTHORIZED')
+      expect(err.message).toBe('Sign in first')
+    }
+  })
+
+  it('should stream subscription events', async () => {
+    const caller = createCaller(router, { userId: 'u1' }, { mode: 'throw' })
+
+    const values: number[] = []
+    for await (const event of await caller.ticks.subscribe(undefined)) values.push(event.data)
+    expect(values).toEqual([1, 2])
+  })
+
+  it('should not look like a promise', () => {
+    const caller = createCaller(router, { userId: 'u1' }) as any
+    expect(caller.then).toBeUndefined()
+    expect(caller.user.then).toBeUndefined()
+  })
+
+  it('should call into lazy routers', async () => {
+    const withLazy = createRouter({
+      billing: lazy(async () => ({
+        default: createRouter({ total: createProcedure<Ctx>().query(async () => R.ok(42, 'RPC_OK')) }),
+      })),
+    })
+    const caller = createCaller(withLazy, { userId: 'u1' }, { mode: 'throw' })
+
+    const total: number = await caller.billing.total.query(undefined)
+    expect(total).toBe(42)
+  })
+
+  it('should run error hooks in-process', async () => {
+    const onError = vi.fn()
+    const caller = createCaller(
+      router,
+      { userId: null },
+      { onError, errorFormatter: ({ shape }) => ({ ...shape, error: { ...shape.error, message: 'Denied' } }) },
+    )
+
+    const me = await caller.user.me.query(undefined)
+
+    expect(!me.ok && me.error.message).toBe('Denied')
+    expect(onError.mock.calls[0]?.[0]).toMatchObject({ path: 'user.me', type: 'query', req: undefined })
+  })
+})
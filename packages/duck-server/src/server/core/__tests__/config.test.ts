@@ -0,0 +1,157 @@
+/**
+ * Tests for error handling config.
+ *
+ * Covers:
+ * - onError reporting
+ * - errorFormatter reshaping
+ * - Config merging
+ * - Production redaction and development details
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { createErrorHooks, mergeRPCConfig, REDACTED_ERROR_MESSAGE } from '../config'
+import { createRPCError, serializeError } from '../error'
+import { RPCRes as R } from '../response'
+
+const site = { path: 'user.get', type: 'query' as const, ctx: { id: 1 }, req: undefined }
+
+describe('createErrorHooks', () => {
+  it('should report thrown errors with their call site', () => {
+    const onError = vi.fn()
+    const hooks = createErrorHooks({ onError }, site)
+
+    const res = hooks.toResult(new Error('boom'))
+
+    expect(res.code).toBe('RPC_INTERNAL_SERVER_ERROR')
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError.mock.calls[0]?.[0]).toMatchObject({ path: 'user.get', type: 'query', ctx: { id: 1 } })
+    expect(onError.mock.calls[0]?.[0].error.message).toBe('boom')
+  })
+
+  it('should never let a failing onError change the result', () => {
+    const hooks = createErrorHooks(
+      {
+        onError: () => {
+          throw new Error('logger down')
+        },
+      },
+      site,
+    )
+
+    expect(hooks.toResult(createRPCError({ code: 'RPC_FORBIDDEN', message: 'No' })).code).toBe('RPC_FORBIDDEN')
+  })
+
+  it('should format error results and pass success through', () => {
+    const hooks = createErrorHooks(
+      { errorFormatter: ({ shape, path }) => ({ ...shape, error: { ...shape.error, message: `${path} failed` } }) },
+      site,
+    )
+
+    const ok = R.ok({ id: 1 }, 'RPC_OK')
+    expect(hooks.format(ok)).toBe(ok)
+    const res = hooks.format(R.err('RPC_NOT_FOUND', 'Missing user'))
+    expect(!res.ok && res.error.message).toBe('user.get failed')
+  })
+
+  it('should hand the original thrown error to the formatter', () => {
+    const cause = new Error('db down')
+    const errorFormatter = vi.fn(({ shape }) => shape)
+    const hooks = createErrorHooks({ errorFormatter }, site)
+
+    hooks.toResult(createRPCError({ code: 'RPC_SERVICE_UNAVAILABLE', message: 'Try later', cause }))
+
+    expect(errorFormatter.mock.calls[0]?.[0].error.cause).toBe(cause)
+  })
+})
+
+describe('mergeRPCConfig', () => {
+  it('should let later configs win per hook', () => {
+    const a = { onError: vi.fn(), errorFormatter: vi.fn() }
+    const b = { onError: vi.fn() }
+
+    const merged = mergeRPCConfig(a, undefined, b)
+
+    expect(merged.onError).toBe(b.onError)
+    expect(merged.errorFormatter).toBe(a.errorFormatter)
+  })
+})
+
+describe('errorMode', () => {
+  const dbError = new Error('connect ECONNREFUSED db.internal:5432')
+
+  it('should redact unexpected errors in production', () => {
+    const onError = vi.fn()
+    const hooks = createErrorHooks({ errorMode: 'production', onError }, site)
+
+    const res = hooks.toResult(dbError)
+
+    expect(res.ok).toBe(false)
+    if (!res.ok) {
+      expect(res.error.message).toBe(REDACTED_ERROR_MESSAGE)
+      expect(res.error.errorId).toMatch(/^[0-9a-f-]{36}$/)
+      expect(JSON.stringify(res)).not.toContain('db.internal')
+      // The id in the response matches the one reported to onError.
+      expect(onError.mock.calls[0]?.[0].error.errorId).toBe(res.error.errorId)
+    }
+  })
+
+  it('should redact driver errors that carry a code in production', () => {
+    const pgError = Object.assign(new Error('duplicate key value on db-primary.internal:5432'), { code: '23505' })
+    const hooks = createErrorHooks({ errorMode: 'production' }, site)
+
+    const res = hooks.toResult(pgError)
+
+    expect(res.code).toBe('RPC_INTERNAL_SERVER_ERROR')
+    expect(!res.ok && res.error.message).toBe(REDACTED_ERROR_MESSAGE)
+    expect(JSON.stringify(res)).not.toContain('db-primary')
+  })
+
+  it('should keep deliberate RPCError messages in production', () => {
+    const hooks = createErrorHooks({ errorMode: 'production' }, site)
+    const res = hooks.toResult(createRPCError({ code: 'RPC_CONFLICT', message: 'Email taken', cause: dbError }))
+
+    expect(res).toEqual({
+      ok: false,
+      code: 'RPC_CONFLICT',
+      error: { code: 'RPC_CONFLICT', message: 'Email taken', issues: [] },
+    })
+  })
+
+  it('should include the cause chain and stack in development', () => {
+    const hooks = createErrorHooks({ errorMode: 'development' }, site)
+    const wrapped = new Error('query failed', { cause: dbError })
+
+    const res = hooks.toResult(wrapped)
+
+    expect(!res.ok && res.error.message).toBe('query failed')
+    if (!res.ok) {
+      expect(typeof res.error.stack).toBe('string')
+      expect(res.error.cause).toMatchObject({
+        name: 'Error',
+        message: 'query failed',
+        cause: { name: 'Error', message: 'connect ECONNREFUSED db.internal:5432' },
+      })
+    }
+  })
+
+  it('should leave payloads untouched without a mode', () => {
+    const hooks = createErrorHooks({}, site)
+    const res = hooks.toResult(dbError)
+
+    expect(res).toEqual({
+      ok: false,
+      code: 'RPC_INTERNAL_SERVER_ERROR',
+      error: { code: 'RPC_INTERNAL_SERVER_ERROR', message: dbError.message, issues: [] },
+    })
+  })
+})
+
+describe('serializeError', () => {
+  it('should stop at the depth limit and stringify non-errors', () => {
+    const chain = new Error('a', { cause: new Error('b', { cause: 'c' }) })
+
+    expect(serializeError(chain, 2)).toMatchObject({ message: 'a', cause: { message: 'b' } })
+    expect(serializeError(chain, 2).cause?.cause).toBeUndefined()
+    expect(serializeError(chain).cause?.cause).toEqual({ name: 'string', message: 'c' })
+  })
+})
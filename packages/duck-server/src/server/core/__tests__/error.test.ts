@@ -7,11 +7,14 @@
  * - Error serialization
  * - Error conversion
  * - Type guards
+ * - Custom code registry
  */
 
 import { describe, expect, it } from 'vitest'
-import { RPC_CODES } from '../codes'
+import { defineRPCCodes, getRPCStatus, listRPCCodes, RPC_CODES } from '../codes'
 import { createRPCError, isRPCError, RPCError, rpcErrorFrom } from '../error'
+import { initRPC } from '../init'
+import { rpcErr, rpcToErr, withCodeMessage } from '../response'
 
 describe('RPCError', () => {
   it('should create an RPC error', () => {
@@ -91,6 +94,11 @@ describe('isRPCError', () => {
     expect(isRPCError(error)).toBe(false)
   })
 
+  it('should reject errors that only carry a code', () => {
+    const error = Object.assign(new Error('duplicate key'), { code: '23505' })
+    expect(isRPCError(error)).toBe(false)
+  })
+
   it('should reject non-error values', () => {
     expect(isRPCError(null)).toBe(false)
     expect(isRPCError(undefined)).toBe(false)
@@ -172,3 +180,54 @@ describe('RPC_CODES', () => {
     }
   })
 })
+
+describe('defineRPCCodes', () => {
+  it('should resolve statuses through the table', () => {
+    const codes = defineRPCCodes({ RPC_QUOTA_EXCEEDED: 429 })
+
+    expect(getRPCStatus('RPC_QUOTA_EXCEEDED', codes)).toBe(429)
+    expect(rpcToErr(createRPCError({ code: 'RPC_QUOTA_EXCEEDED', message: 'Slow down' }), codes)[1]).toBe(429)
+    expect(listRPCCodes(codes).RPC_QUOTA_EXCEEDED).toBe(429)
+    expect(getRPCStatus('RPC_QUOTA_EXCEEDED')).toBe(500)
+  })
+
+  it('should use the defined default message', () => {
+    const codes = defineRPCCodes({ RPC_PAYMENT_REQUIRED: { status: 402, message: 'Upgrade your plan' } })
+
+    const [thrown] = rpcToErr(createRPCError({ code: 'RPC_PAYMENT_REQUIRED' }), codes)
+    expect(!thrown.ok && thrown.error.message).toBe('Upgrade your plan')
+    const returned = withCodeMessage(rpcErr('RPC_PAYMENT_REQUIRED'), codes)
+    expect(!returned.ok && returned.error.message).toBe('Upgrade your plan')
+    const [explicit] = rpcToErr(createRPCError({ code: 'RPC_PAYMENT_REQUIRED', message: 'Card declined' }), codes)
+    expect(!explicit.ok && explicit.error.message).toBe('Card declined')
+  })
+
+  it('should fall back for unknown codes', () => {
+    expect(getRPCStatus('RPC_NEVER_REGISTERED')).toBe(500)
+    expect(getRPCStatus('RPC_NEVER_REGISTERED', undefined, 200)).toBe(200)
+    expect(createRPCError({ code: 'RPC_NEVER_REGISTERED' }).message).toBe('RPC_NEVER_REGISTERED')
+  })
+
+  it('should reject conflicting or invalid definitions', () => {
+    const codes = defineRPCCodes({ RPC_LEGAL_HOLD: 451 })
+    expect(() => defineRPCCodes({ RPC_LEGAL_HOLD: 451 }, codes)).not.toThrow()
+
+    expect(() => defineRPCCodes({ RPC_LEGAL_HOLD: 403 }, codes)).toThrow('already registered with status 451')
+    expect(() => defineRPCCodes({ RPC_NOT_FOUND: 410 })).toThrow('already registered with status 404')
+    expect(() => defineRPCCodes({ RPC_TEAPOT: 999 })).toThrow('Invalid HTTP status 999')
+    // @ts-expect-error codes must be RPC_ prefixed and upper case
+    expect(() => defineRPCCodes({ quota: 429 })).toThrow('Invalid RPC code "quota"')
+  })
+
+  it('should keep the codes of each initRPC instance apart', async () => {
+    const a = initRPC().codes({ RPC_SHARED: 409 }).create()
+    const b = initRPC().codes({ RPC_SHARED: 429 }).create()
+    const fail = async () => {
+      throw createRPCError({ code: 'RPC_SHARED' })
+    }
+
+    expect(a.router({ fail: a.procedure().query(fail) })._def.config?.codes?.get('RPC_SHARED')?.status).toBe(409)
+    expect(b.router({ fail: b.procedure().query(fail) })._def.config?.codes?.get('RPC_SHARED')?.status).toBe(429)
+    expect(initRPC().create().router({})._def.config?.codes).toBeUndefined()
+  })
+})
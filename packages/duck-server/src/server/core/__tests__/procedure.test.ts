@@ -6,12 +6,19 @@
  * - Middleware composition
  * - Input/output validation
  * - Error handling
+ * - Subscriptions
+ * - Metadata
+ * - Declared errors
  */
 
 import { describe, expect, it } from 'vitest'
 import { z } from 'zod'
+import { createCaller } from '../caller'
+import { initRPC } from '../init'
 import { createProcedure } from '../procedure'
 import { RPCRes as R } from '../response'
+import { createRouter } from '../router'
+import { tracked } from '../subscription'
 
 describe('createProcedure', () => {
   it('should create a procedure without validation', () => {
@@ -265,3 +272,234 @@ describe('createProcedure', () => {
     })
   })
 })
+
+describe('createProcedure subscriptions', () => {
+  const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+    const out: T[] = []
+    for await (const item of iterable) out.push(item)
+    return out
+  }
+
+  it('should create subscription procedures', () => {
+    const proc = createProcedure().subscription(async function* () {
+      yield 1
+    })
+
+    expect(proc._type).toBe('subscription')
+  })
+
+  it('should normalize plain and tracked values into events', async () => {
+    const proc = createProcedure().subscription(async function* () {
+      yield 'plain'
+      yield tracked('2', 'tracked')
+    })
+
+    const result = await proc._call({ ctx: {}, rawInput: undefined })
+    expect(result.ok).toBe(true)
+    if (result.ok) {
+      expect(await collect(result.data)).toEqual([{ data: 'plain' }, { id: '2', data: 'tracked' }])
+    }
+  })
+
+  it('should pass input and lastEventId to the resolver', async () => {
+    const proc = createProcedure()
+      .input(z.object({ room: z.string() }))
+      .subscription(async function* ({ input, lastEventId }) {
+        yield `${input.room}:${lastEventId}`
+      })
+
+    const result = await proc._call({ ctx: {}, rawInput: { room: 'a' }, lastEventId: '7' })
+    if (result.ok) {
+      expect(await collect(result.data)).toEqual([{ data: 'a:7' }])
+    }
+  })
+
+  it('should reject invalid input before streaming', async () => {
+    const proc = createProcedure()
+      .input(z.object({ room: z.string() }))
+      .subscription(async function* () {
+        yield 1
+      })
+
+    const result = await proc._call({ ctx: {}, rawInput: { room: 1 } as never })
+    expect(result.ok).toBe(false)
+    if (!result.ok) {
+      expect(result.code).toBe('RPC_BAD_REQUEST')
+    }
+  })
+
+  it('should validate every emitted value against the output schema', async () => {
+    const proc = createProcedure()
+      .output(z.number())
+      .subscription(async function* () {
+        yield 1
+        yield 'two' as never
+      })
+
+    const result = await proc._call({ ctx: {}, rawInput: undefined })
+    if (result.ok) {
+      await expect(collect(result.data)).rejects.toThrow('Output validation failed')
+    }
+  })
+
+  it('should abort the resolver signal when the consumer stops', async () => {
+    let signal: AbortSignal | undefined
+    const proc = createProcedure().subscription(async function* (opts) {
+      signal = opts.signal
+      yield 1
+      yield 2
+    })
+
+    const result = await proc._call({ ctx: {}, rawInput: undefined })
+    if (result.ok) {
+      for await (const _event of result.data) break
+    }
+    expect(signal?.aborted).toBe(true)
+  })
+
+  it('should abort the resolver signal when the call signal fires', async () => {
+    const controller = new AbortController()
+    let signal: AbortSignal | undefined
+    const proc = createProcedure().subscription(async (opts) => {
+      signal = opts.signal
+      return (async function* () {
+        yield 1
+      })()
+    })
+
+    await proc._call({ ctx: {}, rawInput: undefined, signal: controller.signal })
+    controller.abort()
+    expect(signal?.aborted).toBe(true)
+  })
+})
+
+describe('createProcedure meta', () => {
+  type Meta = { auth?: boolean; rateLimit?: 'low' | 'high' }
+
+  it('should expose merged meta on the definition', () => {
+    const proc = createProcedure<any, unknown, unknown, Meta>()
+      .meta({ auth: true })
+      .input(z.object({ id: z.string() }))
+      .meta({ rateLimit: 'high' })
+      .query(async () => R.ok({}, 'RPC_OK'))
+
+    expect(proc._meta).toEqual({ auth: true, rateLimit: 'high' })
+  })
+
+  it('should pass the resolved meta to middleware', async () => {
+    const seen: unknown[] = []
+    const proc = createProcedure<any, unknown, unknown, Meta>()
+      .use(async ({ ctx, meta, next }) => {
+        seen.push(meta)
+        return next({ ctx })
+      })
+      .meta({ auth: true })
+      .mutation(async () => R.ok({}, 'RPC_OK'))
+
+    await proc._call({ ctx: {}, rawInput: undefined })
+    expect(seen).toEqual([{ auth: true }])
+  })
+
+  it('should keep meta and schemas when toggling validation', () => {
+    const schema = z.object({ id: z.string() })
+    const proc = createProcedure<any, unknown, unknown, Meta>()
+      .meta({ auth: false })
+      .input(schema)
+      .validation('off')
+      .query(async () => R.ok({}, 'RPC_OK'))
+
+    expect(proc._meta).toEqual({ auth: false })
+    expect(proc._inputSchema).toBe(schema)
+  })
+
+  it('should type meta through initRPC', () => {
+    const t = initRPC<{ userId: string }>().meta<Meta>().create()
+    const proc = t
+      .procedure()
+      .meta({ rateLimit: 'low' })
+      .query(async () => R.ok({}, 'RPC_OK'))
+
+    expect(proc._meta?.rateLimit).toBe('low')
+    // @ts-expect-error unknown meta keys are rejected
+    t.procedure().meta({ cache: true })
+  })
+
+  it('should combine meta and codes in either order', () => {
+    const codesFirst = initRPC().codes({ RPC_QUOTA_EXCEEDED: 429 }).meta<Meta>().create()
+    const metaFirst = initRPC().meta<Meta>().codes({ RPC_QUOTA_EXCEEDED: 429 }).create()
+
+    for (const t of [codesFirst, metaFirst]) {
+      const proc = t
+        .procedure()
+        .meta({ rateLimit: 'low' })
+        .query(async () => R.ok({}, 'RPC_OK'))
+      expect(proc._meta?.rateLimit).toBe('low')
+      expect(t.router({ proc })._def.config?.codes?.get('RPC_QUOTA_EXCEEDED')?.status).toBe(429)
+      // @ts-expect-error unknown meta keys are rejected
+      t.procedure().meta({ cache: true })
+    }
+  })
+
+  it('should leave meta undefined when none is set', () => {
+    const proc = createProcedure().subscription(async () => (async function* () {})())
+    expect(proc._meta).toBeUndefined()
+  })
+})
+
+describe('createProcedure errors', () => {
+  const withdraw = createProcedure()
+    .errors({ INSUFFICIENT_FUNDS: z.object({ balance: z.number() }) })
+    .errors({ ACCOUNT_LOCKED: z.object({ until: z.string() }) })
+    .input(z.object({ amount: z.number() }))
+    .mutation(async ({ input, errors }) => {
+      if (input.amount > 100) throw errors.INSUFFICIENT_FUNDS({ balance: 100 }, 'Not enough money')
+      if (input.amount < 0) throw errors.ACCOUNT_LOCKED({ until: 'tomorrow' })
+      return R.ok(input.amount, 'RPC_OK')
+    })
+
+  it('should send declared errors with their code and data', async () => {
+    const res = await withdraw._call({ ctx: {}, rawInput: { amount: 500 } })
+
+    expect(res).toEqual({
+      ok: false,
+      code: 'RPC_INSUFFICIENT_FUNDS',
+      error: { code: 'RPC_INSUFFICIENT_FUNDS', message: 'Not enough money', issues: [], data: { balance: 100 } },
+    })
+    expect(Object.keys(withdraw._errors ?? {})).toEqual(['INSUFFICIENT_FUNDS', 'ACCOUNT_LOCKED'])
+  })
+
+  it('should default the message to the error key', async () => {
+    const res = await withdraw._call({ ctx: {}, rawInput: { amount: -1 } })
+    expect(!res.ok && res.error.message).toBe('ACCOUNT_LOCKED')
+  })
+
+  it('should turn invalid error data into an internal error', async () => {
+    const proc = createProcedure()
+      .errors({ CONFLICT_VERSION: z.object({ version: z.number() }) })
+      .mutation(async ({ errors }) => {
+        throw errors.CONFLICT_VERSION({ version: 'v2' as unknown as number })
+      })
+
+    const res = await proc._call({ ctx: {}, rawInput: undefined })
+
+    expect(res.code).toBe('RPC_INTERNAL_SERVER_ERROR')
+    expect(!res.ok && res.error.message).toBe('Error data validation failed')
+  })
+
+  it('should narrow results on declared codes', async () => {
+    const caller = createCaller(createRouter({ withdraw }), {})
+    const res = await caller.withdraw.mutation({ amount: 500 })
+
+    const balanceOf = (r: typeof res) => {
+      if (r.ok) return undefined
+      if (r.code === 'RPC_INSUFFICIENT_FUNDS') return r.error.data.balance
+      // @ts-expect-error built-in errors carry no declared data
+      if (r.code === 'RPC_NOT_FOUND') return r.error.data.balance
+      // @ts-expect-error undeclared custom codes are not part of the union
+      if (r.code === 'RPC_OTHER') return undefined
+      return undefined
+    }
+
+    expect(balanceOf(res)).toBe(100)
+  })
+})
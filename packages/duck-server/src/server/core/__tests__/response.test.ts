@@ -6,12 +6,14 @@
  * - Error conversion
  * - Response type guards
  * - All response functions
+ * - Result statuses of declared errors
  */
 
 import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
 import { RPC_CODES } from '../codes'
 import { createRPCError } from '../error'
-import { RPCRes as R, rpcErr, rpcOk, rpcToErr, rpcToLog } from '../response'
+import { DECLARED_ERROR_STATUS, getResultStatus, RPCRes as R, rpcErr, rpcOk, rpcToErr, rpcToLog } from '../response'
 
 describe('rpcOk', () => {
   it('should create success response', () => {
@@ -167,6 +169,21 @@ describe('rpcToErr', () => {
   })
 })
 
+describe('getResultStatus', () => {
+  const errors = { INSUFFICIENT_FUNDS: z.object({ balance: z.number() }) }
+
+  it('should map results through the code table', () => {
+    expect(getResultStatus(rpcOk(1, 'RPC_CREATED'), errors)).toBe(201)
+    expect(getResultStatus(rpcErr('RPC_NOT_FOUND'), errors)).toBe(404)
+    expect(getResultStatus(rpcErr('RPC_UNDECLARED' as never), errors)).toBe(500)
+  })
+
+  it('should send declared errors as client errors', () => {
+    expect(getResultStatus(rpcErr('RPC_INSUFFICIENT_FUNDS' as never), errors)).toBe(DECLARED_ERROR_STATUS)
+    expect(getResultStatus(rpcErr('RPC_INSUFFICIENT_FUNDS' as never))).toBe(500)
+  })
+})
+
 describe('rpcToLog', () => {
   it('should serialize success responses', () => {
     const res = rpcOk({ data: 'test' }, 'RPC_OK')
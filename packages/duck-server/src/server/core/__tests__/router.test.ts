@@ -6,12 +6,24 @@
  * - Procedure lookup
  * - Nested routers
  * - Router indexing
+ * - Path collisions
+ * - Merging and prefixing
+ * - Lazy routers
  */
 
-import { describe, expect, it } from 'vitest'
+import { describe, expect, it, vi } from 'vitest'
 import { createProcedure } from '../procedure'
 import { RPCRes as R } from '../response'
-import { createRouter, getProcedureAtPath, getRouterIndex } from '../router'
+import {
+  createRouter,
+  getProcedureAtPath,
+  getRouterIndex,
+  lazy,
+  mergeRouters,
+  prefixRouter,
+  resolveProcedureAtPath,
+  resolveRouterIndex,
+} from '../router'
 
 describe('createRouter', () => {
   it('should create a router', () => {
@@ -66,4 +78,146 @@ describe('createRouter', () => {
     const found = getProcedureAtPath(level1, ['level2', 'level3', 'deep'])
     expect(found).toBe(deepProc)
   })
+
+  it('should throw when dotted keys collide with nested paths', () => {
+    const proc = createProcedure().query(async () => R.ok({}, 'RPC_OK'))
+
+    expect(() => createRouter({ 'user.get': proc, user: createRouter({ get: proc }) })).toThrow(
+      'Duplicate router path "user.get"',
+    )
+    expect(() => createRouter({ 'a.b': createRouter({}), a: createRouter({ b: createRouter({}) }) })).toThrow(
+      'Duplicate router path "a.b"',
+    )
+  })
+})
+
+describe('mergeRouters', () => {
+  const proc = createProcedure().query(async () => R.ok({}, 'RPC_OK'))
+
+  it('should flatten records from several routers', () => {
+    const users = createRouter({ user: createRouter({ get: proc }) })
+    const posts = createRouter({ post: createRouter({ list: proc }) })
+    const merged = mergeRouters(users, posts, createRouter({ health: proc }))
+
+    expect(Object.keys(merged._def.record)).toEqual(['user', 'post', 'health'])
+    expect(getProcedureAtPath(merged, ['post', 'list'])).toBe(proc)
+    expect(merged._def.record.user._def.record.get).toBe(proc)
+  })
+
+  it('should merge routers that share a key', () => {
+    const a = createRouter({ admin: createRouter({ users: proc }) })
+    const b = createRouter({ admin: createRouter({ posts: proc }) })
+    const merged = mergeRouters(a, b)
+
+    expect([...getRouterIndex(merged).procs.keys()]).toEqual(['admin.users', 'admin.posts'])
+    expect(merged._def.record.admin._def.record.posts).toBe(proc)
+  })
+
+  it('should report duplicate procedure paths', () => {
+    const a = createRouter({ admin: createRouter({ users: proc }) })
+    const b = createRouter({ admin: createRouter({ users: proc }) })
+
+    expect(() => mergeRouters(a, b)).toThrow('Duplicate router path "admin.users"')
+    expect(() => mergeRouters(createRouter({ admin: proc }), b)).toThrow('Duplicate router path "admin"')
+  })
+})
+
+describe('prefixRouter', () => {
+  const proc = createProcedure().query(async () => R.ok({}, 'RPC_OK'))
+
+  it('should mount a router under a prefix', () => {
+    const v2 = prefixRouter('v2', createRouter({ hello: proc }))
+
+    expect(getProcedureAtPath(v2, ['v2', 'hello'])).toBe(proc)
+    expect(v2._def.record.v2._def.record.hello).toBe(proc)
+  })
+
+  it('should nest dotted prefixes', () => {
+    const api = prefixRouter('api.v2', createRouter({ hello: proc }))
+
+    expect(getProcedureAtPath(api, ['api', 'v2', 'hello'])).toBe(proc)
+    expect(api._def.record.api._def.record.v2._def.record.hello).toBe(proc)
+    expect(() => prefixRouter('api..v2', createRouter({}))).toThrow('Invalid router prefix')
+  })
+})
+
+describe('lazy', () => {
+  const proc = createProcedure().query(async () => R.ok({}, 'RPC_OK'))
+
+  it('should import a lazy router on first resolve', async () => {
+    const load = vi.fn(async () => ({ billingRouter: createRouter({ invoice: proc }) }))
+    const router = createRouter({ health: proc, billing: lazy(load) })
+
+    expect(load).not.toHaveBeenCalled()
+    expect(getProcedureAtPath(router, ['billing', 'invoice'])).toBeNull()
+    expect(await resolveProcedureAtPath(router, ['billing', 'invoice'])).toBe(proc)
+    expect(getProcedureAtPath(router, ['billing', 'invoice'])).toBe(proc)
+    expect(getRouterIndex(router).lazy.size).toBe(0)
+  })
+
+  it('should import only once for concurrent first requests', async () => {
+    const load = vi.fn(async () => ({ default: createRouter({ invoice: proc, refund: proc }) }))
+    const router = createRouter({ billing: lazy(load) })
+
+    const found = await Promise.all([
+      resolveProcedureAtPath(router, ['billing', 'invoice']),
+      resolveProcedureAtPath(router, ['billing', 'refund']),
+      resolveProcedureAtPath(router, ['billing', 'missing']),
+    ])
+    expect(found).toEqual([proc, proc, null])
+    expect(load).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not import for paths outside the lazy prefix', async () => {
+    const load = vi.fn(async () => createRouter({ invoice: proc }))
+    const router = createRouter({ billing: lazy(load) })
+
+    expect(await resolveProcedureAtPath(router, ['users', 'get'])).toBeNull()
+    expect(await resolveProcedureAtPath(router, ['billing'])).toBeNull()
+    expect(load).not.toHaveBeenCalled()
+  })
+
+  it('should resolve nested lazy routers', async () => {
+    const inner = lazy(async () => createRouter({ deep: proc }))
+    const router = createRouter({ a: lazy(async () => createRouter({ b: inner })) })
+
+    expect(await resolveProcedureAtPath(router, ['a', 'b', 'deep'])).toBe(proc)
+  })
+
+  it('should retry a failed import', async () => {
+    let attempts = 0
+    const router = createRouter({
+      billing: lazy(async () => {
+        attempts++
+        if (attempts === 1) throw new Error('network down')
+        return createRouter({ invoice: proc })
+      }),
+    })
+
+    await expect(resolveProcedureAtPath(router, ['billing', 'invoice'])).rejects.toThrow('network down')
+    expect(await resolveProcedureAtPath(router, ['billing', 'invoice'])).toBe(proc)
+  })
+
+  it('should load every lazy router with resolveRouterIndex', async () => {
+    const router = createRouter({
+      billing: lazy(async () =>
+        createRouter({ invoice: proc, admin: lazy(async () => createRouter({ audit: proc })) }),
+      ),
+    })
+
+    const idx = await resolveRouterIndex(router)
+    expect([...idx.procs.keys()].sort()).toEqual(['billing.admin.audit', 'billing.invoice'])
+  })
+
+  it('should reject modules without exactly one router', async () => {
+    const router = createRouter({ billing: lazy(async () => ({ a: createRouter({}), b: createRouter({}) })) })
+    await expect(resolveProcedureAtPath(router, ['billing', 'x'])).rejects.toThrow('exactly one router')
+  })
+
+  it('should report collisions with lazy entries', () => {
+    const billing = lazy(async () => createRouter({}))
+    expect(() => createRouter({ 'billing.x': createRouter({}), billing: createRouter({ x: billing }) })).toThrow(
+      'Duplicate router path "billing.x"',
+    )
+  })
 })
@@ -0,0 +1,139 @@
+import { createErrorHooks, mergeRPCConfig, type RPCConfig } from './config'
+import { createRPCError, type ErrorSchemas } from './error'
+import type { AnyProc, ProcedureDef } from './procedure'
+import { type ProcedureResponse, type RPCResType, rpcErr } from './response'
+import type { AnyRPCRouter, LazyRouter, RouterRecord, RPCRouter } from './router'
+import { resolveProcedureAtPath } from './router'
+import type { SubscriptionEvent } from './subscription'
+
+/**
+ * In-process caller that mirrors the router shape, like the proxy client but without HTTP.
+ * Middleware, input validation and output validation all run exactly as they do for requests.
+ */
+
+/** `result` resolves every call to `RPCResType`; `throw` resolves to data and throws `RPCError`s. */
+export type CallerMode = 'result' | 'throw'
+
+/** Options for {@link createCaller}. Error handling options override the router's. */
+export type CallerOptions<TMode extends CallerMode = 'result'> = RPCConfig & {
+  mode?: TMode
+}
+
+/** Per-call options for subscriptions. */
+export type CallerSubscribeOptions = {
+  signal?: AbortSignal
+  lastEventId?: string
+}
+
+/** Infer procedure input type from a ProcedureDef. */
+type ProcInput<TProc> = TProc extends ProcedureDef<any, infer TInput, any, any> ? TInput : never
+/** Infer procedure output type from a ProcedureDef. */
+type ProcOutput<TProc> = TProc extends ProcedureDef<any, any, infer TOutput, any> ? TOutput : never
+/** Infer declared errors from a ProcedureDef. */
+type ProcErrors<TProc> = TProc extends ProcedureDef<any, any, any, any, any, infer TErrors> ? TErrors : {}
+
+/** Call result for the chosen mode. */
+type CallerResult<TData, TMode extends CallerMode, TErrors extends ErrorSchemas = {}> = TMode extends 'throw'
+  ? TData
+  : ProcedureResponse<TData, TErrors>
+
+/** Map a procedure to its caller shape. */
+type ProcCaller<TProc extends AnyProc, TMode extends CallerMode> = TProc['_type'] extends 'query'
+  ? { query: (input: ProcInput<TProc>) => Promise<CallerResult<ProcOutput<TProc>, TMode, ProcErrors<TProc>>> }
+  : TProc['_type'] extends 'mutation'
+    ? { mutation: (input: ProcInput<TProc>) => Promise<CallerResult<ProcOutput<TProc>, TMode, ProcErrors<TProc>>> }
+    : {
+        subscribe: (
+          input: ProcInput<TProc>,
+          options?: CallerSubscribeOptions,
+        ) => Promise<CallerResult<AsyncIterable<SubscriptionEvent<ProcOutput<TProc>>>, TMode>>
+      }
+
+/** Recursively map a router record to nested caller nodes. */
+type RouterCaller<TRecord extends RouterRecord, TMode extends CallerMode> = {
+  [K in keyof TRecord]: TRecord[K] extends AnyProc
+    ? ProcCaller<TRecord[K], TMode>
+    : TRecord[K] extends RPCRouter<infer R>
+      ? RouterCaller<R, TMode>
+      : TRecord[K] extends LazyRouter<RPCRouter<infer R>>
+        ? RouterCaller<R, TMode>
+        : never
+}
+
+/** Typed caller derived from a router definition. */
+export type RPCCaller<TRouter extends AnyRPCRouter, TMode extends CallerMode = 'result'> = TRouter extends RPCRouter<
+  infer R
+>
+  ? RouterCaller<R, TMode>
+  : never
+
+/**
+ * Create a typed in-process caller (ex: `caller.user.get.query({ id })`).
+ * `ctx` may be a value or a factory that runs once per call.
+ */
+export function createCaller<TRouter extends AnyRPCRouter, TCtx, TMode extends CallerMode = 'result'>(
+  router: TRouter,
+  ctx: TCtx | (() => TCtx | Promise<TCtx>),
+  opts: CallerOptions<TMode> = {},
+): RPCCaller<TRouter, TMode> {
+  const throwOnError = opts.mode === 'throw'
+  const config = mergeRPCConfig(router._def.config, opts)
+
+  const invoke = async (
+    path: string[],
+    type: AnyProc['_type'],
+    rawInput: unknown,
+    subOptions: CallerSubscribeOptions = {},
+  ): Promise<unknown> => {
+    const proc = await resolveProcedureAtPath(router, path)
+    let res: RPCResType<unknown>
+    if (!proc) {
+      res = rpcErr('RPC_NOT_FOUND', 'Procedure not found')
+    } else if (proc._type !== type) {
+      res = rpcErr('RPC_BAD_REQUEST', 'Procedure type mismatch')
+    } else {
+      const resolvedCtx = typeof ctx === 'function' ? await (ctx as () => TCtx | Promise<TCtx>)() : ctx
+      const hooks = createErrorHooks(config, { path: path.join('.'), type, ctx: resolvedCtx, req: undefined })
+      res = hooks.format(
+        await proc._call({
+          ctx: resolvedCtx,
+          rawInput,
+          signal: subOptions.signal,
+          lastEventId: subOptions.lastEventId,
+          onError: hooks.report,
+        }),
+      )
+    }
+
+    if (!throwOnError) return res
+    if (res.ok) return res.data
+    throw createRPCError({
+      code: res.code,
+      message: res.error.message,
+      issues: res.error.issues ?? [],
+      data: res.error.data,
+    })
+  }
+
+  // Proxy builds up dotted paths at property access time.
+  const buildProxy = (path: string[]): any =>
+    new Proxy(
+      {},
+      {
+        get(_target, prop) {
+          if (prop === 'query' || prop === 'mutation') {
+            return (input?: unknown) => invoke(path, prop, input)
+          }
+          if (prop === 'subscribe') {
+            return (input?: unknown, options?: CallerSubscribeOptions) => invoke(path, 'subscription', input, options)
+          }
+          // Prevent Promise-like behavior when awaited accidentally.
+          if (prop === 'then') return undefined
+          if (prop === Symbol.toStringTag) return 'RPCCaller'
+          return buildProxy([...path, String(prop)])
+        },
+      },
+    )
+
+  return buildProxy([]) as RPCCaller<TRouter, TMode>
+}
@@ -8,6 +8,7 @@ export const RPC_CODES = {
   RPC_FORBIDDEN: 403,
   RPC_NOT_FOUND: 404,
   RPC_METHOD_NOT_ALLOWED: 405,
+  RPC_NOT_ACCEPTABLE: 406,
   RPC_TIMEOUT: 408,
   RPC_CONFLICT: 409,
   RPC_PRECONDITION_FAILED: 412,
@@ -30,6 +31,65 @@ export const RPC_CODES = {
 } as const
 
 /** Template shape for custom RPC code strings. */
-type RPCCodeShape = `RPC_${Uppercase<string>}` & {}
+export type RPCCodeShape = `RPC_${Uppercase<string>}` & {}
+/** Union of the built-in RPC codes. */
+export type BuiltinRPCCode = keyof typeof RPC_CODES
 /** Union of built-in RPC codes and custom code strings. */
 export type RPCCode = keyof typeof RPC_CODES | RPCCodeShape
+
+/** Status and default message of a custom code. */
+export type RPCCodeDef = {
+  status: number
+  /** Used when an error with this code is created without a message. */
+  message?: string | undefined
+}
+
+/** Custom codes for `initRPC().codes()`: an HTTP status, or a status with a default message. */
+export type RPCCodeRegistry = { [code: RPCCodeShape]: number | RPCCodeDef }
+
+/** Custom codes of one `initRPC` instance, carried on its routers' config. */
+export type RPCCodeTable = ReadonlyMap<string, RPCCodeDef>
+
+/**
+ * Validate custom codes and return a table of `base` plus `codes`.
+ * Defining a code again with the same status is allowed; a conflicting status throws.
+ */
+export function defineRPCCodes(codes: RPCCodeRegistry, base?: RPCCodeTable | undefined): RPCCodeTable {
+  const table = new Map(base)
+  for (const [code, value] of Object.entries(codes)) {
+    const def = typeof value === 'number' ? { status: value } : value
+    if (!/^RPC_[A-Z0-9_]+$/.test(code)) throw new Error(`Invalid RPC code "${code}"`)
+    if (!Number.isInteger(def.status) || def.status < 100 || def.status > 599) {
+      throw new Error(`Invalid HTTP status ${def.status} for RPC code "${code}"`)
+    }
+
+    const existing = Object.hasOwn(RPC_CODES, code) ? RPC_CODES[code as BuiltinRPCCode] : table.get(code)?.status
+    if (existing !== undefined && existing !== def.status) {
+      throw new Error(`RPC code "${code}" is already registered with status ${existing}`)
+    }
+    if (!Object.hasOwn(RPC_CODES, code)) table.set(code, def)
+  }
+  return table
+}
+
+/** HTTP status for a code, from the built-in table or `codes`. Unknown codes get `fallback`. */
+export function getRPCStatus(
+  code: string,
+  codes?: RPCCodeTable | undefined,
+  fallback: number = RPC_CODES.RPC_INTERNAL_SERVER_ERROR,
+): number {
+  if (Object.hasOwn(RPC_CODES, code)) return RPC_CODES[code as BuiltinRPCCode]
+  return codes?.get(code)?.status ?? fallback
+}
+
+/** Default message defined for a custom code in `codes`, if any. */
+export function getRPCCodeMessage(code: string, codes?: RPCCodeTable | undefined): string | undefined {
+  return codes?.get(code)?.message
+}
+
+/** Every known code with its status: built-in codes followed by those in `codes`. */
+export function listRPCCodes(codes?: RPCCodeTable | undefined): Record<string, number> {
+  const out: Record<string, number> = { ...RPC_CODES }
+  for (const [code, def] of codes ?? []) out[code] = def.status
+  return out
+}
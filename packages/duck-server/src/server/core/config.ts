@@ -0,0 +1,111 @@
+import type { RPCCodeTable } from './codes'
+import { createRPCError, isRPCError, type RPCError, rpcErrorFrom, serializeError } from './error'
+import type { ProcedureType } from './procedure'
+import { type RPCResType, rpcToErr } from './response'
+
+/** Serialized error payload, the `ok: false` branch of `RPCResType`. */
+export type RPCErrorShape = Extract<RPCResType<never>, { ok: false }>
+
+/** Where an error happened. `type` is undefined when the request failed before routing. */
+export type ErrorHookOpts<TCtx = any> = {
+  error: RPCError
+  /** Dotted procedure path, empty for batch or endpoint-level errors. */
+  path: string
+  type: ProcedureType | undefined
+  /** Undefined when `createContext` itself failed. */
+  ctx: TCtx | undefined
+  /** Undefined for in-process calls. */
+  req: Request | undefined
+}
+
+/** Called for every thrown error, before it is converted into a response. */
+export type OnErrorFn<TCtx = any> = (opts: ErrorHookOpts<TCtx>) => void
+
+/** Reshape an error payload before it is sent, ex: add a request id or strip messages. */
+export type ErrorFormatter<TCtx = any> = (opts: ErrorHookOpts<TCtx> & { shape: RPCErrorShape }) => RPCErrorShape
+
+/**
+ * How unexpected errors (anything thrown that is not an `RPCError`) are exposed.
+ * - `production`: generic message plus an opaque `errorId`; deliberate `RPCError`s keep their message.
+ * - `development`: full message plus the serialized `cause` chain and `stack`.
+ * Unset keeps messages as thrown, without causes or stacks.
+ */
+export type ErrorMode = 'production' | 'development'
+
+/** Error handling config shared by `initRPC().create()`, handlers and callers. */
+export type RPCConfig<TCtx = any> = {
+  onError?: OnErrorFn<TCtx> | undefined
+  errorFormatter?: ErrorFormatter<TCtx> | undefined
+  errorMode?: ErrorMode | undefined
+  /** Custom codes from `initRPC().codes()`, used to resolve statuses and default messages. */
+  codes?: RPCCodeTable | undefined
+}
+
+/** Message sent in place of a redacted error's message. */
+export const REDACTED_ERROR_MESSAGE = 'Internal server error'
+
+/** Per-call error helpers bound to a config and call site. */
+export type ErrorHooks = {
+  /** Report a thrown error through `onError`. */
+  report: (e: unknown) => void
+  /** Run `errorFormatter` on error results; success results pass through. */
+  format: <TData>(res: RPCResType<TData>) => RPCResType<TData>
+  /** Report a thrown error and return its formatted error result. */
+  toResult: (e: unknown) => RPCResType<never>
+}
+
+/** Bind `onError` and `errorFormatter` to one call site. */
+export function createErrorHooks<TCtx>(config: RPCConfig<TCtx>, site: Omit<ErrorHookOpts<TCtx>, 'error'>): ErrorHooks {
+  // The formatter sees the original thrown error when there was one, not just its serialized shape.
+  let thrown: RPCError | undefined
+  let unexpected = false
+
+  const report = (e: unknown) => {
+    unexpected = !isRPCError(e)
+    thrown = rpcErrorFrom(e)
+    if (unexpected && config.errorMode === 'production') thrown.errorId = crypto.randomUUID()
+    if (!config.onError) return
+    try {
+      config.onError({ ...site, error: thrown })
+    } catch {
+      // A failing logger must never change the response.
+    }
+  }
+
+  const format = <TData>(res: RPCResType<TData>): RPCResType<TData> => {
+    if (res.ok || (!config.errorFormatter && !config.errorMode)) return res
+    const { code, message, issues } = res.error
+    const isThrown = thrown?.code === code
+    const error = isThrown && thrown ? thrown : createRPCError({ code, message, issues: issues ?? [] })
+
+    let shape: RPCErrorShape = res
+    if (config.errorMode === 'production' && isThrown && unexpected) {
+      const redacted = { code, message: REDACTED_ERROR_MESSAGE, issues: [] }
+      shape = { ok: false, code, error: error.errorId ? { ...redacted, errorId: error.errorId } : redacted }
+    } else if (config.errorMode === 'development' && isThrown) {
+      const { stack, cause } = serializeError(error)
+      shape = { ...res, error: { ...res.error, ...(stack ? { stack } : {}), ...(cause ? { cause } : {}) } }
+    }
+
+    return config.errorFormatter ? config.errorFormatter({ ...site, error, shape }) : shape
+  }
+
+  const toResult = (e: unknown) => {
+    report(e)
+    return format(rpcToErr(e, config.codes)[0])
+  }
+
+  return { report, format, toResult }
+}
+
+/** Combine configs; later entries win per option, and per code for `codes`. */
+export function mergeRPCConfig<TCtx>(...configs: (RPCConfig<TCtx> | undefined)[]): RPCConfig<TCtx> {
+  const out: RPCConfig<TCtx> = {}
+  for (const config of configs) {
+    if (config?.onError) out.onError = config.onError
+    if (config?.errorFormatter) out.errorFormatter = config.errorFormatter
+    if (config?.errorMode) out.errorMode = config.errorMode
+    if (config?.codes) out.codes = out.codes ? new Map([...out.codes, ...config.codes]) : config.codes
+  }
+  return out
+}
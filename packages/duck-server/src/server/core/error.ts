@@ -1,19 +1,25 @@
-import type { RPCCode } from './codes'
-import type { StandardSchemaV1 } from './schema'
+import { getRPCCodeMessage, type RPCCode, type RPCCodeTable } from './codes'
+import type { AnySchema, InferIn, StandardSchemaV1 } from './schema'
 
 /** Typed RPC error shape used throughout the server. */
 export interface RPCError extends Error {
   code: RPCCode
   cause?: unknown
   issues?: ReadonlyArray<StandardSchemaV1.Issue>
+  /** Opaque id sent instead of the message of a redacted error; log it to correlate reports. */
+  errorId?: string
+  /** Typed payload of a declared error, see {@link ErrorSchemas}. */
+  data?: unknown
 }
 
 /** Constructor options for creating an {@link RPCError}. */
 export type RPCErrorOptions = {
   code: RPCCode
-  message: string
+  /** Defaults to the code itself; handlers then send the message defined for the code by `initRPC().codes()`. */
+  message?: string
   cause?: unknown
   issues?: ReadonlyArray<StandardSchemaV1.Issue>
+  data?: unknown
 }
 
 /** Signature for the RPCError constructor. */
@@ -23,11 +29,12 @@ export type RPCErrorConstructor = new (opts: RPCErrorOptions) => RPCError
  * Create a typed RPC error without using classes.
  */
 export function createRPCError(opts: RPCErrorOptions): RPCError {
-  const err = new Error(opts.message) as RPCError
+  const err = new Error(opts.message ?? opts.code) as RPCError
   err.name = 'RPCError'
   err.code = opts.code
   err.cause = opts.cause
   err.issues = opts.issues ?? []
+  if (opts.data !== undefined) err.data = opts.data
   return err
 }
 
@@ -38,9 +45,28 @@ export const RPCError: RPCErrorConstructor = function RPCErrorCtor(opts: RPCErro
   return createRPCError(opts)
 } as unknown as RPCErrorConstructor
 
-/** Runtime type guard for RPCError values. */
+/**
+ * Runtime type guard for RPCError values created by {@link createRPCError}.
+ * Driver and system errors also carry a string `code` (ex: pg's "23505", "ECONNREFUSED"), so the name is checked too.
+ */
 export function isRPCError(e: unknown): e is RPCError {
-  return e instanceof Error && typeof (e as RPCError).code === 'string'
+  return e instanceof Error && e.name === 'RPCError' && typeof (e as RPCError).code === 'string'
+}
+
+/** JSON-safe view of an error and its cause chain, sent in development mode. */
+export type SerializedError = {
+  name: string
+  message: string
+  stack?: string | undefined
+  cause?: SerializedError | undefined
+}
+
+/** Serialize an error and up to `depth` levels of `cause`. Non-errors become their string form. */
+export function serializeError(e: unknown, depth = 5): SerializedError {
+  if (!(e instanceof Error)) return { name: typeof e, message: String(e) }
+  const out: SerializedError = { name: e.name, message: e.message, stack: e.stack }
+  if (e.cause !== undefined && depth > 1) out.cause = serializeError(e.cause, depth - 1)
+  return out
 }
 
 /** Convert an unknown error to an RPCError. */
@@ -51,3 +77,25 @@ export function rpcErrorFrom(e: unknown): RPCError {
   }
   return createRPCError({ code: 'RPC_INTERNAL_SERVER_ERROR', message: 'Unknown error', cause: e })
 }
+
+/** Domain errors declared with `.errors()`: key to data schema. Each key is sent as code `RPC_<KEY>`. */
+export type ErrorSchemas = Record<string, AnySchema>
+
+/** Typed constructors handed to resolvers, ex: `throw errors.INSUFFICIENT_FUNDS({ balance })`. */
+export type ErrorConstructors<TErrors extends ErrorSchemas> = {
+  [K in keyof TErrors & string]: (data: InferIn<TErrors[K]>, message?: string) => RPCError
+}
+
+/** Build the error constructors for a set of declared errors. The message defaults to the one in `codes`, then the key. */
+export function createErrorConstructors<TErrors extends ErrorSchemas>(
+  schemas: TErrors | undefined,
+  codes?: RPCCodeTable | undefined,
+): ErrorConstructors<TErrors> {
+  const out: Record<string, (data: unknown, message?: string) => RPCError> = {}
+  for (const key in schemas) {
+    const code = `RPC_${key}` as RPCCode
+    out[key] = (data, message) =>
+      createRPCError({ code, message: message ?? getRPCCodeMessage(code, codes) ?? key, data })
+  }
+  return out as ErrorConstructors<TErrors>
+}
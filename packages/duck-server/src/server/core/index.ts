@@ -1,4 +1,6 @@
+export * from './caller'
 export * from './codes'
+export * from './config'
 export * from './error'
 export * from './init'
 export * from './middleware'
@@ -6,3 +8,4 @@ export * from './procedure'
 export * from './response'
 export * from './router'
 export * from './schema'
+export * from './subscription'
@@ -1,16 +1,37 @@
+import { defineRPCCodes, type RPCCodeRegistry, type RPCCodeTable } from './codes'
+import { mergeRPCConfig, type RPCConfig } from './config'
 import type { AnyProc } from './procedure'
 import { createProcedure } from './procedure'
-import type { AnyRPCRouter } from './router'
+import type { AnyLazyRouter, AnyRPCRouter } from './router'
 import { createRouter } from './router'
 
-/** Initialize typed RPC factory helpers bound to a context shape. */
-export function initRPC<const TCtx extends Record<string, any>>() {
+/** Build the factory helpers for a context and metadata shape. */
+function createFactory<TCtx, TMeta>(config?: RPCConfig<TCtx>) {
   return {
-    create: () => {
-      return {
-        procedure: () => createProcedure<TCtx>(),
-        router: <const T extends Record<string, AnyProc | AnyRPCRouter>>(record: T) => createRouter(record),
-      }
-    },
+    procedure: () =>
+      createProcedure<TCtx, unknown, unknown, TMeta>({ middlewares: [], validation: 'on', codes: config?.codes }),
+    /** Routers carry `config`, so every handler and caller serving them applies the same error hooks and codes. */
+    router: <const T extends Record<string, AnyProc | AnyRPCRouter | AnyLazyRouter>>(record: T) =>
+      createRouter(record, config),
   }
 }
+
+/** Builder returned by `initRPC()`, `.meta()` and `.codes()`, which can be chained in any order. */
+type InitWithMeta<TCtx, TMeta> = {
+  create: (config?: RPCConfig<TCtx>) => ReturnType<typeof createFactory<TCtx, TMeta>>
+  /** Define custom codes with their HTTP status for this instance's routers, see {@link defineRPCCodes}. */
+  codes: (codes: RPCCodeRegistry) => InitWithMeta<TCtx, TMeta>
+  /** Declare the metadata shape accepted by `.meta()` on every procedure. */
+  meta: <TNewMeta extends object>() => InitWithMeta<TCtx, TNewMeta>
+}
+
+/** Initialize typed RPC factory helpers bound to a context shape. */
+export function initRPC<const TCtx extends Record<string, any>>() {
+  const withMeta = <TMeta>(table?: RPCCodeTable): InitWithMeta<TCtx, TMeta> => ({
+    create: (config) => createFactory<TCtx, TMeta>(table ? mergeRPCConfig<TCtx>({ codes: table }, config) : config),
+    codes: (codes) => withMeta<TMeta>(defineRPCCodes(codes, table)),
+    meta: <TNewMeta extends object>() => withMeta<TNewMeta>(table),
+  })
+
+  return withMeta<unknown>()
+}
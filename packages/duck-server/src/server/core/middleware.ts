@@ -1,3 +1,4 @@
+import type { ResponseFormat } from '../serialization/codec'
 import type { RPCError } from './error'
 import { createRPCError, isRPCError } from './error'
 import { type RPCResType, rpcErr, rpcToErr } from './response'
@@ -6,8 +7,12 @@ import { type RPCResType, rpcErr, rpcToErr } from './response'
 export type MiddlewareResult<DData> = { ok: true; data: DData } | { ok: false; error: RPCError }
 
 /** Middleware function signature for context refinement and control flow. */
-export type MiddlewareFn<DCtxIn, DCtxOut> = (opts: {
+export type MiddlewareFn<DCtxIn, DCtxOut, DMeta = unknown> = (opts: {
   ctx: DCtxIn
+  /** Resolved metadata of the procedure being called. */
+  meta: DMeta | undefined
+  /** Negotiated response format, ex: to vary caching by it. Undefined for in-process calls. */
+  format: ResponseFormat | undefined
   next: (opts?: { ctx?: DCtxOut }) => Promise<MiddlewareResult<any>>
 }) => Promise<MiddlewareResult<any>>
 
@@ -18,10 +23,19 @@ export type MiddlewareFn<DCtxIn, DCtxOut> = (opts: {
  * to vary per request while the middleware chain structure is pre-composed.
  */
 export function composeMiddlewares<TCtx, TOut>(
-  middlewares: MiddlewareFn<any, any>[],
-): (ctx: TCtx, resolver: (ctx: TCtx) => Promise<RPCResType<TOut>>) => Promise<RPCResType<TOut>> {
+  middlewares: MiddlewareFn<any, any, any>[],
+  meta?: unknown,
+): (
+  ctx: TCtx,
+  resolver: (ctx: TCtx) => Promise<RPCResType<TOut>>,
+  format?: ResponseFormat | undefined,
+) => Promise<RPCResType<TOut>> {
   // Build once at procedure creation time
-  return async (ctx: TCtx, resolver: (ctx: TCtx) => Promise<RPCResType<TOut>>): Promise<RPCResType<TOut>> => {
+  return async (
+    ctx: TCtx,
+    resolver: (ctx: TCtx) => Promise<RPCResType<TOut>>,
+    format?: ResponseFormat | undefined,
+  ): Promise<RPCResType<TOut>> => {
     let idx = -1
 
     const dispatch = async (i: number, nextCtx: TCtx): Promise<RPCResType<TOut>> => {
@@ -33,6 +47,8 @@ export function composeMiddlewares<TCtx, TOut>(
 
       const result = await mw({
         ctx: nextCtx,
+        meta,
+        format,
         next: async (opts) => {
           const updatedCtx = (opts?.ctx ?? nextCtx) as TCtx
           const data = await dispatch(i + 1, updatedCtx)
@@ -1,135 +1,358 @@
+import type { ResponseFormat } from '../serialization/codec'
+import type { RPCCodeTable } from './codes'
+import { createErrorConstructors, createRPCError, type ErrorConstructors, type ErrorSchemas, isRPCError } from './error'
 import { composeMiddlewares, type MiddlewareFn } from './middleware'
-import { type RPCResType, rpcToErr } from './response'
+import { type RPCResType, rpcOk, rpcToErr, withCodeMessage } from './response'
 import { type AnySchema, type InferOut, parseInput, parseOutput } from './schema'
+import { type SubscriptionEvent, type SubscriptionResolver, toSubscriptionEvents } from './subscription'
 
 /** Procedure type. */
-export type ProcedureType = 'query' | 'mutation'
+export type ProcedureType = 'query' | 'mutation' | 'subscription'
+
+/** Data produced by `_call`: subscriptions resolve to a stream of events instead of a single value. */
+export type ProcedureResult<TType extends ProcedureType, TOutput> = TType extends 'subscription'
+  ? AsyncIterable<SubscriptionEvent<TOutput>>
+  : TOutput
+
+/** Per-call options passed to `_call` by transports. */
+export type ProcedureCallOpts<TCtx, TInput> = {
+  ctx: TCtx
+  rawInput: TInput
+  /** Request-scoped abort signal (client disconnect, or the deadline passing). */
+  signal?: AbortSignal | undefined
+  /** Epoch ms by which the caller stops waiting, from the request's timeout header. */
+  deadline?: number | undefined
+  /** Last event id sent by a resuming subscription client. */
+  lastEventId?: string | undefined
+  /** Called with the raw value thrown by middleware, validation or the resolver before it becomes a result. */
+  onError?: ((error: unknown) => void) | undefined
+  /** Negotiated response format, handed to middleware. */
+  format?: ResponseFormat | undefined
+}
 
 /** Procedure definition. */
-export type ProcedureDef<TCtx, TInput, TOutput, TType extends ProcedureType = ProcedureType> = {
+export type ProcedureDef<
+  TCtx,
+  TInput,
+  TOutput,
+  TType extends ProcedureType = ProcedureType,
+  TMeta = unknown,
+  TErrors extends ErrorSchemas = {},
+> = {
   _kind: 'procedure'
   _type: TType
   _input: TInput
   _output: TOutput
-  _call: (opts: { ctx: TCtx; rawInput: TInput }) => Promise<RPCResType<TOutput>>
+  /** Declared input schema, used for validation and docs generation. */
+  _inputSchema?: AnySchema | undefined
+  /** Declared output schema, used for validation and docs generation. */
+  _outputSchema?: AnySchema | undefined
+  /** Metadata attached with `.meta()`, readable by middleware and tooling. */
+  _meta?: TMeta | undefined
+  /** Errors declared with `.errors()`, by key. */
+  _errors?: TErrors | undefined
+  _call: (opts: ProcedureCallOpts<TCtx, TInput>) => Promise<RPCResType<ProcedureResult<TType, TOutput>>>
 }
 
 /** Any procedure. */
-export type AnyProc = ProcedureDef<any, any, any, ProcedureType>
+export type AnyProc = ProcedureDef<any, any, any, ProcedureType, any, any>
 
 /** Resolver type. */
-export type Resolver<TCtx, TInput, TOutput> = (opts: {
+export type Resolver<TCtx, TInput, TOutput, TErrors extends ErrorSchemas = {}> = (opts: {
   ctx: TCtx
   input: TInput
+  /** Constructors for the errors declared with `.errors()`. */
+  errors: ErrorConstructors<TErrors>
+  /** Aborted when the client disconnects or its deadline passes; hand it to work worth cancelling. */
+  signal: AbortSignal
+  /** Milliseconds left before the caller's deadline, `Infinity` when it sent none. */
+  remainingMs: () => number
 }) => Promise<RPCResType<TOutput>> | RPCResType<TOutput>
 
 /** Fluent procedure builder with middleware and schema configuration. */
-export type Procedure<TCtx, TInput, TOutput> = {
+export type Procedure<TCtx, TInput, TOutput, TMeta = unknown, TErrors extends ErrorSchemas = {}> = {
   /** Attach a middleware that can refine the context type. */
-  use<TNewCtx extends TCtx>(middleWare: MiddlewareFn<TCtx, TNewCtx>): Procedure<TNewCtx, TInput, TOutput>
+  use<TNewCtx extends TCtx>(
+    middleWare: MiddlewareFn<TCtx, TNewCtx, TMeta>,
+  ): Procedure<TNewCtx, TInput, TOutput, TMeta, TErrors>
   /** Add an input schema that parses incoming raw input. */
-  input<TSchema extends AnySchema>(schema: TSchema): Procedure<TCtx, InferOut<TSchema>, TOutput>
+  input<TSchema extends AnySchema>(schema: TSchema): Procedure<TCtx, InferOut<TSchema>, TOutput, TMeta, TErrors>
   /** Add an output schema that validates resolver output. */
-  output<TSchema extends AnySchema>(schema: TSchema): Procedure<TCtx, TInput, InferOut<TSchema>>
+  output<TSchema extends AnySchema>(schema: TSchema): Procedure<TCtx, TInput, InferOut<TSchema>, TMeta, TErrors>
+  /** Attach metadata, shallow-merged over metadata set earlier in the chain. */
+  meta(meta: TMeta): Procedure<TCtx, TInput, TOutput, TMeta, TErrors>
+  /** Declare domain errors by key; resolvers get typed constructors and clients see them as `RPC_<KEY>` codes. */
+  errors<TNewErrors extends ErrorSchemas>(
+    errors: TNewErrors,
+  ): Procedure<TCtx, TInput, TOutput, TMeta, TErrors & TNewErrors>
   /** Create a query procedure definition. */
-  query<TOut extends TOutput>(resolver: Resolver<TCtx, TInput, TOut>): ProcedureDef<TCtx, TInput, TOut, 'query'>
+  query<TOut extends TOutput>(
+    resolver: Resolver<TCtx, TInput, TOut, TErrors>,
+  ): ProcedureDef<TCtx, TInput, TOut, 'query', TMeta, TErrors>
   /** Create a mutation procedure definition. */
-  mutation<TOut extends TOutput>(resolver: Resolver<TCtx, TInput, TOut>): ProcedureDef<TCtx, TInput, TOut, 'mutation'>
+  mutation<TOut extends TOutput>(
+    resolver: Resolver<TCtx, TInput, TOut, TErrors>,
+  ): ProcedureDef<TCtx, TInput, TOut, 'mutation', TMeta, TErrors>
+  /** Create a subscription procedure whose resolver returns an async iterable. */
+  subscription<TOut extends TOutput>(
+    resolver: SubscriptionResolver<TCtx, TInput, TOut, TErrors>,
+  ): ProcedureDef<TCtx, TInput, TOut, 'subscription', TMeta, TErrors>
   /** Turn of validation for this procedure's input and output. */
-  validation(value: 'on' | 'off'): Procedure<TCtx, TInput, TOutput>
+  validation(value: 'on' | 'off'): Procedure<TCtx, TInput, TOutput, TMeta, TErrors>
 }
 
 /** Internal builder state for middleware and schema configuration. */
 type ProcedureState = {
-  middlewares: MiddlewareFn<any, any>[]
+  middlewares: MiddlewareFn<any, any, any>[]
   inputSchema?: AnySchema | undefined
   outputSchema?: AnySchema | undefined
   validation?: 'on' | 'off' | undefined
+  meta?: unknown
+  errors?: ErrorSchemas | undefined
+  /** Custom codes of the `initRPC` instance, for default messages. */
+  codes?: RPCCodeTable | undefined
 }
 
+/** Signal handed to resolvers of calls without one, ex: server-side calls. */
+const NEVER_ABORTED = new AbortController().signal
+
 /** Create a new procedure builder with optional base state. */
-export function createProcedure<TCtx, TInput = unknown, TOutput = unknown>(
-  state: ProcedureState = { middlewares: [], validation: 'on' },
-): Procedure<TCtx, TInput, TOutput> {
-  const use = <TNewCtx>(middleWare: MiddlewareFn<TCtx, TNewCtx>) =>
-    createProcedure<TNewCtx, TInput, TOutput>({
+export function createProcedure<
+  TCtx,
+  TInput = unknown,
+  TOutput = unknown,
+  TMeta = unknown,
+  TErrors extends ErrorSchemas = {},
+>(state: ProcedureState = { middlewares: [], validation: 'on' }): Procedure<TCtx, TInput, TOutput, TMeta, TErrors> {
+  const use = <TNewCtx>(middleWare: MiddlewareFn<TCtx, TNewCtx, TMeta>) =>
+    createProcedure<TNewCtx, TInput, TOutput, TMeta, TErrors>({
       middlewares: [...state.middlewares, middleWare],
       inputSchema: state.inputSchema,
       outputSchema: state.outputSchema,
       validation: state.validation,
+      meta: state.meta,
+      errors: state.errors,
+      codes: state.codes,
     })
 
   const input = <TSchema extends AnySchema>(schema: TSchema) =>
-    createProcedure<TCtx, InferOut<TSchema>, TOutput>({
+    createProcedure<TCtx, InferOut<TSchema>, TOutput, TMeta, TErrors>({
       middlewares: state.middlewares,
       inputSchema: schema,
       outputSchema: state.outputSchema,
       validation: state.validation,
+      meta: state.meta,
+      errors: state.errors,
+      codes: state.codes,
     })
 
   const output = <TSchema extends AnySchema>(schema: TSchema) =>
-    createProcedure<TCtx, TInput, InferOut<TSchema>>({
+    createProcedure<TCtx, TInput, InferOut<TSchema>, TMeta, TErrors>({
       middlewares: state.middlewares,
       inputSchema: state.inputSchema,
       outputSchema: schema,
       validation: state.validation,
+      meta: state.meta,
+      errors: state.errors,
+      codes: state.codes,
     })
 
-  const make = <TOut extends TOutput, TType extends ProcedureType>(
+  const meta = (value: TMeta) =>
+    createProcedure<TCtx, TInput, TOutput, TMeta, TErrors>({
+      middlewares: state.middlewares,
+      inputSchema: state.inputSchema,
+      outputSchema: state.outputSchema,
+      validation: state.validation,
+      meta: state.meta ? { ...(state.meta as object), ...(value as object) } : value,
+      errors: state.errors,
+      codes: state.codes,
+    })
+
+  const errors = <TNewErrors extends ErrorSchemas>(value: TNewErrors) =>
+    createProcedure<TCtx, TInput, TOutput, TMeta, TErrors & TNewErrors>({
+      ...state,
+      errors: { ...state.errors, ...value },
+    })
+
+  const make = <TOut extends TOutput, TType extends 'query' | 'mutation'>(
     type: TType,
-    resolver: Resolver<TCtx, TInput, TOut>,
-  ): ProcedureDef<TCtx, TInput, TOut, TType> => {
+    resolver: Resolver<TCtx, TInput, TOut, TErrors>,
+  ): ProcedureDef<TCtx, TInput, TOut, TType, TMeta, TErrors> => {
     // Pre-compose middleware chain once at procedure creation time
     // This avoids creating the dispatch function and next closures on every request
-    const run = composeMiddlewares<TCtx, TOut>(state.middlewares)
+    const run = composeMiddlewares<TCtx, TOut>(state.middlewares, state.meta)
+    const errorConstructors = createErrorConstructors<TErrors>(state.errors as TErrors | undefined, state.codes)
+
+    const call = async ({
+      ctx,
+      rawInput,
+      signal = NEVER_ABORTED,
+      deadline,
+      onError,
+      format,
+    }: ProcedureCallOpts<TCtx, TInput>): Promise<RPCResType<TOut>> => {
+      const remainingMs = () => (deadline === undefined ? Number.POSITIVE_INFINITY : Math.max(0, deadline - Date.now()))
+      try {
+        // Nobody is waiting for the result any more, so skip the work.
+        if (signal.aborted) throw abortedError(signal)
+
+        // Validate input if needed
+        let validatedInput = rawInput
+        if (state.inputSchema && state.validation === 'on') {
+          validatedInput = await parseInput(state.inputSchema, rawInput)
+        }
+
+        // Create resolver with validated input - this closure is created per request
+        // but the middleware chain structure itself is pre-composed
+        const resolverWithInput = async (nextCtx: TCtx): Promise<RPCResType<TOut>> => {
+          const out = await resolver({
+            ctx: nextCtx,
+            input: validatedInput,
+            errors: errorConstructors,
+            signal,
+            remainingMs,
+          })
+          if (!state.outputSchema || !out.ok) return out
+          const data = state.validation === 'on' ? await parseOutput(state.outputSchema, out.data) : out.data
+          return { ...out, data }
+        }
+
+        // Run the pre-composed chain with the request-specific resolver
+        return withCodeMessage(await run(ctx, resolverWithInput, format), state.codes)
+      } catch (e: unknown) {
+        return reportError(await checkErrorData(e, state), onError, state.codes)
+      }
+    }
 
     return {
       _kind: 'procedure',
       _type: type,
       _input: undefined as TInput,
       _output: undefined as TOut,
-      _call: async ({ ctx, rawInput }) => {
+      _inputSchema: state.inputSchema,
+      _outputSchema: state.outputSchema,
+      _meta: state.meta as TMeta | undefined,
+      _errors: state.errors as TErrors | undefined,
+      // TType is never 'subscription' here, so ProcedureResult<TType, TOut> is TOut.
+      _call: call as ProcedureDef<TCtx, TInput, TOut, TType, TMeta, TErrors>['_call'],
+    }
+  }
+
+  const makeSubscription = <TOut extends TOutput>(
+    resolver: SubscriptionResolver<TCtx, TInput, TOut, TErrors>,
+  ): ProcedureDef<TCtx, TInput, TOut, 'subscription', TMeta, TErrors> => {
+    const run = composeMiddlewares<TCtx, AsyncIterable<SubscriptionEvent<TOut>>>(state.middlewares, state.meta)
+    const errorConstructors = createErrorConstructors<TErrors>(state.errors as TErrors | undefined, state.codes)
+
+    return {
+      _kind: 'procedure',
+      _type: 'subscription',
+      _input: undefined as TInput,
+      _output: undefined as TOut,
+      _inputSchema: state.inputSchema,
+      _outputSchema: state.outputSchema,
+      _meta: state.meta as TMeta | undefined,
+      _errors: state.errors as TErrors | undefined,
+      _call: async ({ ctx, rawInput, signal, lastEventId, onError, format }) => {
         try {
-          // Validate input if needed
           let validatedInput = rawInput
           if (state.inputSchema && state.validation === 'on') {
             validatedInput = await parseInput(state.inputSchema, rawInput)
           }
 
-          // Create resolver with validated input - this closure is created per request
-          // but the middleware chain structure itself is pre-composed
-          const resolverWithInput = async (nextCtx: TCtx): Promise<RPCResType<TOut>> => {
-            const out = await resolver({ ctx: nextCtx, input: validatedInput })
-            if (!state.outputSchema || !out.ok) return out
-            const data = state.validation === 'on' ? await parseOutput(state.outputSchema, out.data) : out.data
-            return { ...out, data }
+          // Middleware runs once when the subscription starts, not per emitted value.
+          const resolverWithInput = async (
+            nextCtx: TCtx,
+          ): Promise<RPCResType<AsyncIterable<SubscriptionEvent<TOut>>>> => {
+            // The resolver's signal fires on client disconnect and when the consumer closes the stream.
+            const controller = new AbortController()
+            const abort = () => controller.abort(signal?.reason)
+            if (signal?.aborted) abort()
+            else signal?.addEventListener('abort', abort, { once: true })
+
+            const source = await resolver({
+              ctx: nextCtx,
+              input: validatedInput,
+              errors: errorConstructors,
+              signal: controller.signal,
+              lastEventId,
+            })
+            const schema = state.validation === 'on' ? state.outputSchema : undefined
+            const events = toSubscriptionEvents(source, schema, () => {
+              signal?.removeEventListener('abort', abort)
+              controller.abort()
+            })
+            return rpcOk(events, 'RPC_OK')
           }
 
-          // Run the pre-composed chain with the request-specific resolver
-          return await run(ctx, resolverWithInput)
+          return await run(ctx, resolverWithInput, format)
         } catch (e: unknown) {
-          return rpcToErr(e)[0]
+          return reportError(await checkErrorData(e, state), onError, state.codes)
         }
       },
     }
   }
 
-  const query = <TOut extends TOutput>(resolver: Resolver<TCtx, TInput, TOut>) => make('query', resolver)
-  const mutation = <TOut extends TOutput>(resolver: Resolver<TCtx, TInput, TOut>) => make('mutation', resolver)
+  const query = <TOut extends TOutput>(resolver: Resolver<TCtx, TInput, TOut, TErrors>) => make('query', resolver)
+  const mutation = <TOut extends TOutput>(resolver: Resolver<TCtx, TInput, TOut, TErrors>) => make('mutation', resolver)
+  const subscription = <TOut extends TOutput>(resolver: SubscriptionResolver<TCtx, TInput, TOut, TErrors>) =>
+    makeSubscription(resolver)
   const validation = (value: 'on' | 'off' = 'on') => {
-    return createProcedure<TCtx, TInput, TOutput>({ middlewares: state.middlewares, validation: value })
+    return createProcedure<TCtx, TInput, TOutput, TMeta, TErrors>({ ...state, validation: value })
   }
 
   return {
     use,
     input,
     output,
+    meta,
+    errors,
     query,
     mutation,
+    subscription,
     validation,
   }
 }
 
+/**
+ * Validate the data of a thrown declared error against its schema when validation is on.
+ * Invalid data is a server bug, so it becomes an internal error.
+ */
+async function checkErrorData(e: unknown, state: ProcedureState): Promise<unknown> {
+  if (!state.errors || state.validation !== 'on' || !isRPCError(e) || !e.code.startsWith('RPC_')) return e
+  const schema = state.errors[e.code.slice(4)]
+  if (!schema) return e
+
+  const res = await schema['~standard'].validate(e.data)
+  if (!res.issues) {
+    e.data = res.value
+    return e
+  }
+  return createRPCError({
+    code: 'RPC_INTERNAL_SERVER_ERROR',
+    message: 'Error data validation failed',
+    issues: res.issues,
+    cause: e,
+  })
+}
+
+/** The error for a call whose caller gave up: the abort reason when it is an RPC error, ex: a passed deadline. */
+function abortedError(signal: AbortSignal): unknown {
+  if (isRPCError(signal.reason)) return signal.reason
+  return createRPCError({ code: 'RPC_TIMEOUT', message: 'Request aborted', cause: signal.reason })
+}
+
+/** Convert a thrown error into an error result, reporting it first. */
+function reportError(
+  e: unknown,
+  onError: ((error: unknown) => void) | undefined,
+  codes: RPCCodeTable | undefined,
+): RPCResType<never> {
+  const [res] = rpcToErr(e, codes)
+  onError?.(e)
+  return res
+}
+
 /** Runtime type guard for procedure definitions. */
 export function isProcedure(x: unknown): x is AnyProc {
   return !!x && typeof x === 'object' && (x as AnyProc)._kind === 'procedure'
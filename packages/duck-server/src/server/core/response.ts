@@ -1,6 +1,13 @@
-import { RPC_CODES, type RPCCode } from './codes'
-import { type RPCError, rpcErrorFrom } from './error'
-import type { StandardSchemaV1 } from './schema'
+import {
+  type BuiltinRPCCode,
+  getRPCCodeMessage,
+  getRPCStatus,
+  RPC_CODES,
+  type RPCCode,
+  type RPCCodeTable,
+} from './codes'
+import { type ErrorSchemas, type RPCError, rpcErrorFrom } from './error'
+import type { InferOut, StandardSchemaV1 } from './schema'
 
 /** Normalized RPC response wrapper for success or error results. */
 export type RPCResType<TData, TCode extends RPCCode = RPCCode> =
@@ -15,25 +22,78 @@ export type RPCResType<TData, TCode extends RPCCode = RPCCode> =
       error: Omit<RPCError, 'name'>
     }
 
+/** Error result of a declared error, carrying its typed `data`. */
+export type DeclaredErrorResult<TErrors extends ErrorSchemas> = {
+  [K in keyof TErrors & string]: {
+    ok: false
+    code: `RPC_${K}`
+    error: Omit<RPCError, 'name' | 'code' | 'data'> & { code: `RPC_${K}`; data: InferOut<TErrors[K]> }
+  }
+}[keyof TErrors & string]
+
+/**
+ * Result type seen by callers of a procedure. With declared errors, the error branch narrows on `code`
+ * to exactly those errors plus the built-in codes; without, it is plain {@link RPCResType}.
+ */
+export type ProcedureResponse<TData, TErrors extends ErrorSchemas = {}> = keyof TErrors extends never
+  ? RPCResType<TData>
+  :
+      | Extract<RPCResType<TData>, { ok: true }>
+      | Extract<RPCResType<never, BuiltinRPCCode>, { ok: false }>
+      | DeclaredErrorResult<TErrors>
+
 /** Build a successful RPC response payload. */
 export function rpcOk<TData>(data: TData, code: RPCCode): RPCResType<TData> {
   return { ok: true, data, code }
 }
 
+/** Message of error results built without one. */
+const NO_MESSAGE = 'NOT_PROVIDED'
+
 /** Build an error RPC response payload. */
 export function rpcErr<const TCode extends RPCCode>(
   code: TCode,
   message?: string,
   issues?: ReadonlyArray<StandardSchemaV1.Issue>,
 ): RPCResType<never, TCode> {
-  return { ok: false, code, error: { code, message: message ?? 'NOT_PROVIDED', issues: issues ?? [] } }
+  return {
+    ok: false,
+    code,
+    error: { code, message: message ?? NO_MESSAGE, issues: issues ?? [] },
+  }
+}
+
+/** Use the message defined in `codes` for an error result created without a message. */
+export function withCodeMessage<TData>(res: RPCResType<TData>, codes?: RPCCodeTable | undefined): RPCResType<TData> {
+  if (res.ok || (res.error.message !== NO_MESSAGE && res.error.message !== res.code)) return res
+  const message = getRPCCodeMessage(res.code, codes)
+  return message === undefined ? res : { ...res, error: { ...res.error, message } }
 }
 
-/** Convert an unknown error to an RPC error response and HTTP status. */
-export function rpcToErr(e: unknown): [RPCResType<never>, number] {
+/** Convert an unknown error to an RPC error response and HTTP status, resolving custom codes through `codes`. */
+export function rpcToErr(e: unknown, codes?: RPCCodeTable | undefined): [RPCResType<never>, number] {
   const de = rpcErrorFrom(e)
-  const status = RPC_CODES[de.code as never] ?? RPC_CODES.RPC_INTERNAL_SERVER_ERROR
-  return [rpcErr(de.code, de.message, de.issues), status]
+  const status = getRPCStatus(de.code, codes)
+  const res = withCodeMessage(rpcErr(de.code, de.message, de.issues), codes)
+  if (de.data !== undefined && !res.ok) res.error.data = de.data
+  return [res, status]
+}
+
+/** Status of declared errors whose code has no registered status: the caller's request broke a domain rule. */
+export const DECLARED_ERROR_STATUS = 400
+
+/**
+ * HTTP status for the result of a procedure declaring `errors`, resolving custom codes through `codes`.
+ * Declared errors without a registered status are client errors, not a server fault.
+ */
+export function getResultStatus(
+  res: RPCResType<unknown>,
+  errors?: ErrorSchemas | undefined,
+  codes?: RPCCodeTable | undefined,
+): number {
+  if (res.ok) return getRPCStatus(res.code, codes, RPC_CODES.RPC_OK)
+  const declared = !!errors && res.code.startsWith('RPC_') && Object.hasOwn(errors, res.code.slice(4))
+  return getRPCStatus(res.code, codes, declared ? DECLARED_ERROR_STATUS : undefined)
 }
 
 /** Serialize an RPC response for structured logging. */
@@ -1,26 +1,172 @@
+import { mergeRPCConfig, type RPCConfig } from './config'
 import type { AnyProc } from './procedure'
 import { isProcedure } from './procedure'
 
 /** Router type alias for any record shape. */
 export type AnyRPCRouter = RPCRouter<any>
 
-/** A router record containing procedures or nested routers. */
-export type RouterRecord = Readonly<Record<string, AnyProc | AnyRPCRouter>>
+/** A router record containing procedures, nested routers or lazily imported routers. */
+export type RouterRecord = Readonly<Record<string, AnyProc | AnyRPCRouter | AnyLazyRouter>>
 
 /** Runtime router object created by {@link createRouter}. */
 export interface RPCRouter<TRecord extends RouterRecord = RouterRecord> {
   readonly _kind: 'router'
   readonly _def: {
     readonly record: TRecord
+    /** Error handling config from `initRPC().create()`, read by handlers and callers. */
+    readonly config?: RPCConfig | undefined
   }
 }
 
-/** Create an immutable router from a record of procedures and nested routers. */
-export function createRouter<const TRecord extends RouterRecord>(record: TRecord): RPCRouter<TRecord> {
-  const def = { record }
+/** Router entry imported on first use, created by {@link lazy}. */
+export interface LazyRouter<TRouter extends AnyRPCRouter = AnyRPCRouter> {
+  readonly _kind: 'lazy'
+  /** Import the router; concurrent and later calls share one import. */
+  readonly _load: () => Promise<TRouter>
+}
+
+/** Lazy router alias for any router shape. */
+export type AnyLazyRouter = LazyRouter<any>
+
+/** Router exported by a lazily imported module: the module itself, its default export or its router export. */
+export type LazyModuleRouter<TModule> = TModule extends AnyRPCRouter
+  ? TModule
+  : TModule extends { default: infer TDefault extends AnyRPCRouter }
+    ? TDefault
+    : Extract<TModule[keyof TModule], AnyRPCRouter>
+
+/** Record type produced by merging two router records; shared keys must both be routers. */
+type MergeRecords<A extends RouterRecord, B extends RouterRecord> = {
+  readonly [K in keyof A | keyof B]: K extends keyof A
+    ? K extends keyof B
+      ? A[K] extends RPCRouter<infer RA>
+        ? B[K] extends RPCRouter<infer RB>
+          ? RPCRouter<MergeRecords<RA, RB>>
+          : never
+        : never
+      : A[K]
+    : K extends keyof B
+      ? B[K]
+      : never
+}
+
+/** Record type produced by {@link mergeRouters}. */
+export type MergeRouterRecords<
+  TRouters extends readonly AnyRPCRouter[],
+  TAcc extends RouterRecord = {},
+> = TRouters extends readonly [infer THead, ...infer TRest extends readonly AnyRPCRouter[]]
+  ? THead extends RPCRouter<infer R>
+    ? MergeRouterRecords<TRest, MergeRecords<TAcc, R>>
+    : never
+  : TAcc
+
+/** Record type produced by {@link prefixRouter}; dotted prefixes nest one router per segment. */
+export type PrefixRouterRecord<
+  TPrefix extends string,
+  TRouter extends AnyRPCRouter,
+> = TPrefix extends `${infer THead}.${infer TRest}`
+  ? { readonly [K in THead]: RPCRouter<PrefixRouterRecord<TRest, TRouter>> }
+  : { readonly [K in TPrefix]: TRouter }
+
+/**
+ * Create an immutable router from a record of procedures and nested routers.
+ * Throws when two entries resolve to the same dotted path (ex: a `'user.get'` key next to a `user` router).
+ */
+export function createRouter<const TRecord extends RouterRecord>(
+  record: TRecord,
+  config?: RPCConfig,
+): RPCRouter<TRecord> {
+  const def = config ? { record, config } : { record }
   Object.freeze(def)
   Object.freeze(record)
-  return Object.freeze({ _kind: 'router', _def: def })
+  const router: RPCRouter<TRecord> = Object.freeze({ _kind: 'router', _def: def })
+  // Index eagerly so path collisions surface when the router is built, not on the first request.
+  getRouterIndex(router)
+  return router
+}
+
+/**
+ * Merge routers into one. Routers under the same key are merged recursively;
+ * any other shared path throws.
+ */
+export function mergeRouters<const TRouters extends readonly AnyRPCRouter[]>(
+  ...routers: TRouters
+): RPCRouter<MergeRouterRecords<TRouters>> {
+  const merge = (records: RouterRecord[], prefix: string[]) => {
+    const out: Record<string, AnyProc | AnyRPCRouter | AnyLazyRouter> = {}
+    for (const record of records) {
+      for (const key in record) {
+        const val = record[key] as AnyProc | AnyRPCRouter | AnyLazyRouter
+        const existing = out[key]
+        if (existing === undefined) {
+          out[key] = val
+        } else if (isRPCRouter(existing) && isRPCRouter(val)) {
+          out[key] = createRouter(merge([existing._def.record, val._def.record], [...prefix, key]))
+        } else {
+          throw new Error(`Duplicate router path "${joinPath([...prefix, key])}"`)
+        }
+      }
+    }
+    return out
+  }
+
+  const records = routers.map((r) => r._def.record)
+  const config = routers.find((r) => r._def.config)?._def.config
+  // Error hooks come from the first router with a config; custom codes from every router.
+  const { codes } = mergeRPCConfig(...routers.map((r) => r._def.config))
+  return createRouter(merge(records, []), codes ? { ...config, codes } : config) as RPCRouter<
+    MergeRouterRecords<TRouters>
+  >
+}
+
+/** Mount a router under a (possibly dotted) prefix, ex: `prefixRouter('api.v2', router)`. */
+export function prefixRouter<const TPrefix extends string, TRouter extends AnyRPCRouter>(
+  prefix: TPrefix,
+  router: TRouter,
+): RPCRouter<PrefixRouterRecord<TPrefix, TRouter>> {
+  const segments = prefix.split('.')
+  if (segments.some((s) => !s)) throw new Error(`Invalid router prefix "${prefix}"`)
+
+  let node: AnyRPCRouter = router
+  for (const segment of segments.reverse()) node = createRouter({ [segment]: node }, router._def.config)
+  return node as RPCRouter<PrefixRouterRecord<TPrefix, TRouter>>
+}
+
+/**
+ * Declare a router entry that is imported on the first request under its prefix,
+ * ex: `billing: lazy(() => import('./billing-router'))`.
+ * A failed import is retried by the next request.
+ */
+export function lazy<TModule>(load: () => Promise<TModule>): LazyRouter<LazyModuleRouter<TModule>> {
+  let pending: Promise<LazyModuleRouter<TModule>> | undefined
+
+  const loadOnce = () => {
+    if (!pending) {
+      pending = load().then((mod) => routerFromModule(mod) as LazyModuleRouter<TModule>)
+      pending.catch(() => {
+        pending = undefined
+      })
+    }
+    return pending
+  }
+
+  return Object.freeze({ _kind: 'lazy', _load: loadOnce })
+}
+
+/** Pick the router out of an imported module. */
+function routerFromModule(mod: unknown): AnyRPCRouter {
+  if (isRPCRouter(mod)) return mod
+  const exports = (mod ?? {}) as Record<string, unknown>
+  if (isRPCRouter(exports.default)) return exports.default
+
+  const routers = Object.values(exports).filter(isRPCRouter)
+  if (routers.length !== 1) throw new Error('A lazy router module must export exactly one router')
+  return routers[0] as AnyRPCRouter
+}
+
+/** Runtime type guard for lazy router entries. */
+export function isLazyRouter(x: unknown): x is AnyLazyRouter {
+  return !!x && typeof x === 'object' && (x as AnyLazyRouter)._kind === 'lazy'
 }
 
 /** Runtime type guard for router objects. */
@@ -32,6 +178,8 @@ export function isRPCRouter(x: unknown): x is AnyRPCRouter {
 export interface RouterIndex {
   procs: Map<string, AnyProc>
   routers: Map<string, AnyRPCRouter>
+  /** Lazy routers not imported yet; entries move into `procs`/`routers` once loaded. */
+  lazy: Map<string, AnyLazyRouter>
 }
 
 const ROUTER_INDEX = new WeakMap<AnyRPCRouter, RouterIndex>()
@@ -41,10 +189,12 @@ function joinPath(path: readonly string[]) {
   return path.join('.')
 }
 
-/** Build a flat index of all procedures and nested routers. */
+/** Build a flat index of all procedures and nested routers. Throws on duplicate dotted paths. */
 export function buildRouterIndex(router: AnyRPCRouter): RouterIndex {
   const procs = new Map<string, AnyProc>()
   const routers = new Map<string, AnyRPCRouter>()
+  const lazyRouters = new Map<string, AnyLazyRouter>()
+  const isTaken = (dotted: string) => procs.has(dotted) || routers.has(dotted) || lazyRouters.has(dotted)
 
   const visit = (node: AnyRPCRouter, prefix: string[]) => {
     const rec = node._def.record as Record<string, any>
@@ -52,21 +202,29 @@ export function buildRouterIndex(router: AnyRPCRouter): RouterIndex {
     for (const key in rec) {
       const val = rec[key]
       const nextPath = prefix.length ? [...prefix, key] : [key]
+      const dotted = joinPath(nextPath)
+
+      if (isTaken(dotted)) throw new Error(`Duplicate router path "${dotted}"`)
 
       if (isProcedure(val)) {
-        procs.set(joinPath(nextPath), val)
+        procs.set(dotted, val)
+        continue
+      }
+
+      if (isLazyRouter(val)) {
+        lazyRouters.set(dotted, val)
         continue
       }
 
       if (isRPCRouter(val)) {
-        routers.set(joinPath(nextPath), val)
+        routers.set(dotted, val)
         visit(val, nextPath)
       }
     }
   }
 
   visit(router, [])
-  return { procs, routers }
+  return { procs, routers, lazy: lazyRouters }
 }
 
 /** Return a cached router index, building it on first access. */
@@ -78,8 +236,61 @@ export function getRouterIndex(router: AnyRPCRouter): RouterIndex {
   return idx
 }
 
-/** Look up a procedure by its dotted path, or return null if not found. */
+/**
+ * Look up a procedure by its dotted path, or return null if not found.
+ * Only sees lazy routers that are already loaded; transports use {@link resolveProcedureAtPath}.
+ */
 export function getProcedureAtPath(router: AnyRPCRouter, path: readonly string[]): AnyProc | null {
   const idx = getRouterIndex(router)
   return idx.procs.get(joinPath(path)) ?? null
 }
+
+/** Look up a procedure by its dotted path, importing lazy routers on the way. */
+export async function resolveProcedureAtPath(router: AnyRPCRouter, path: readonly string[]): Promise<AnyProc | null> {
+  const idx = getRouterIndex(router)
+  for (;;) {
+    const proc = idx.procs.get(joinPath(path))
+    if (proc) return proc
+
+    // Load the lazy router covering this path, if any, then look again.
+    let prefix: string | undefined
+    for (let i = 1; i < path.length && !prefix; i++) {
+      const candidate = joinPath(path.slice(0, i))
+      if (idx.lazy.has(candidate)) prefix = candidate
+    }
+    if (!prefix) return null
+    await loadLazyRouter(idx, prefix)
+  }
+}
+
+/** Import every lazy router and return the complete index (ex: before generating docs). */
+export async function resolveRouterIndex(router: AnyRPCRouter): Promise<RouterIndex> {
+  const idx = getRouterIndex(router)
+  while (idx.lazy.size) {
+    await Promise.all([...idx.lazy.keys()].map((prefix) => loadLazyRouter(idx, prefix)))
+  }
+  return idx
+}
+
+/** Import the lazy router at `prefix` and splice its entries into the index. */
+async function loadLazyRouter(idx: RouterIndex, prefix: string): Promise<void> {
+  const entry = idx.lazy.get(prefix)
+  if (!entry) return
+  const loaded = await entry._load()
+  // A concurrent request may have spliced it in while we waited on the shared import.
+  if (idx.lazy.get(prefix) !== entry) return
+
+  const sub = getRouterIndex(loaded)
+  const entries = [...sub.procs.keys(), ...sub.routers.keys(), ...sub.lazy.keys()].map((k) => `${prefix}.${k}`)
+  for (const dotted of entries) {
+    if (idx.procs.has(dotted) || idx.routers.has(dotted) || idx.lazy.has(dotted)) {
+      throw new Error(`Duplicate router path "${dotted}"`)
+    }
+  }
+
+  idx.lazy.delete(prefix)
+  idx.routers.set(prefix, loaded)
+  for (const [k, v] of sub.procs) idx.procs.set(`${prefix}.${k}`, v)
+  for (const [k, v] of sub.routers) idx.routers.set(`${prefix}.${k}`, v)
+  for (const [k, v] of sub.lazy) idx.lazy.set(`${prefix}.${k}`, v)
+}
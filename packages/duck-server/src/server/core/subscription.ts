@@ -0,0 +1,70 @@
+import { createRPCError, type ErrorConstructors, type ErrorSchemas } from './error'
+import type { AnySchema } from './schema'
+import { parseOutput } from './schema'
+
+/** Brand used to recognize tracked events at runtime. */
+const TRACKED = Symbol.for('duck-rpc.tracked')
+
+/** A subscription value tagged with an id that clients can resume from. */
+export type TrackedEvent<TData> = {
+  readonly [TRACKED]: true
+  readonly id: string
+  readonly data: TData
+}
+
+/** Normalized event yielded by a subscription procedure's `_call`. */
+export type SubscriptionEvent<TData> = {
+  id?: string
+  data: TData
+}
+
+/** Resolver for subscription procedures. Yields plain values or {@link tracked} events. */
+export type SubscriptionResolver<TCtx, TInput, TOutput, TErrors extends ErrorSchemas = {}> = (opts: {
+  ctx: TCtx
+  input: TInput
+  /** Constructors for the errors declared with `.errors()`. */
+  errors: ErrorConstructors<TErrors>
+  /** Aborted when the client disconnects or the stream is closed. */
+  signal: AbortSignal
+  /** Id of the last event the client received, when it is resuming. */
+  lastEventId: string | undefined
+}) => AsyncIterable<TOutput | TrackedEvent<TOutput>> | Promise<AsyncIterable<TOutput | TrackedEvent<TOutput>>>
+
+/**
+ * Tag a subscription value with an id.
+ * The id is sent as the SSE `id:` field and comes back as `lastEventId` on reconnect.
+ * Ids with CR, LF or NUL are rejected: they would end the SSE field and inject fields or events of their own.
+ */
+export function tracked<TData>(id: string, data: TData): TrackedEvent<TData> {
+  if (/[\r\n\0]/.test(id)) {
+    throw createRPCError({ code: 'RPC_INTERNAL_SERVER_ERROR', message: 'Event ids must not contain CR, LF or NUL' })
+  }
+  return { [TRACKED]: true, id, data }
+}
+
+/** Runtime type guard for tracked events. */
+export function isTrackedEvent(x: unknown): x is TrackedEvent<unknown> {
+  return !!x && typeof x === 'object' && (x as TrackedEvent<unknown>)[TRACKED] === true
+}
+
+/**
+ * Normalize a resolver's iterable into {@link SubscriptionEvent}s, validating each value.
+ * `onDone` runs once the source finishes, throws, or is closed by the consumer.
+ */
+export async function* toSubscriptionEvents<TOutput>(
+  source: AsyncIterable<TOutput | TrackedEvent<TOutput>>,
+  outputSchema: AnySchema | undefined,
+  onDone: () => void,
+): AsyncGenerator<SubscriptionEvent<TOutput>> {
+  try {
+    for await (const item of source) {
+      const event: SubscriptionEvent<TOutput> = isTrackedEvent(item)
+        ? { id: item.id, data: item.data as TOutput }
+        : { data: item as TOutput }
+      if (outputSchema) event.data = await parseOutput(outputSchema, event.data)
+      yield event
+    }
+  } finally {
+    onDone()
+  }
+}
@@ -7,13 +7,24 @@
  * - Error handling
  * - Format resolution
  * - Path parsing
+ * - Request batching
+ * - Lazy routers
+ * - Error hooks
+ * - Problem details
+ * - Custom code statuses
+ * - Accept negotiation
+ * - Response compression
+ * - Deadlines
  */
 
+import { decode as cborDecode, encode as cborEncode } from 'cbor-x'
 import { describe, expect, it, vi } from 'vitest'
 import { z } from 'zod'
+import { createRPCError } from '../../core/error'
+import { initRPC } from '../../core/init'
 import { createProcedure } from '../../core/procedure'
 import { RPCRes as R } from '../../core/response'
-import { createRouter } from '../../core/router'
+import { type AnyRPCRouter, createRouter, lazy } from '../../core/router'
 import { fetchRequestHandler } from '../fetch'
 
 describe('fetchRequestHandler', () => {
@@ -154,4 +165,559 @@ describe('fetchRequestHandler', () => {
 
     expect(res.headers.get('content-type')).toContain('application/cbor')
   })
+
+  it('should run POST batches and keep per-call results in order', async () => {
+    const hello = createProcedure()
+      .input(z.object({ name: z.string() }))
+      .query(async ({ input }) => R.ok({ greeting: `Hello ${input.name}` }, 'RPC_OK'))
+    const save = createProcedure().mutation(async () => R.ok({ saved: true }, 'RPC_CREATED'))
+    const router = createRouter({ hello, user: createRouter({ save }) })
+
+    const req = new Request('http://localhost/rpc', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify([
+        { path: 'hello', type: 'query', input: { name: 'World' } },
+        { path: 'user.save', type: 'mutation' },
+        { path: 'hello', type: 'query', input: { name: 123 } },
+        { path: 'missing', type: 'query' },
+      ]),
+    })
+
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data).toHaveLength(4)
+    expect(data[0]).toEqual({ ok: true, data: { greeting: 'Hello World' }, code: 'RPC_OK' })
+    expect(data[1]).toEqual({ ok: true, data: { saved: true }, code: 'RPC_CREATED' })
+    expect(data[2].ok).toBe(false)
+    expect(data[2].code).toBe('RPC_BAD_REQUEST')
+    expect(data[3].ok).toBe(false)
+    expect(data[3].code).toBe('RPC_NOT_FOUND')
+  })
+
+  it('should run GET batches as queries', async () => {
+    const a = createProcedure().query(async () => R.ok('a', 'RPC_OK'))
+    const b = createProcedure()
+      .input(z.number())
+      .query(async ({ input }) => R.ok(input * 2, 'RPC_OK'))
+    const router = createRouter({ a, b })
+
+    const input = encodeURIComponent(JSON.stringify([{ path: 'a' }, { path: 'b', input: 21 }]))
+    const req = new Request(`http://localhost/rpc?batch=1&input=${input}`)
+
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    expect(res.status).toBe(200)
+    const data = await res.json()
+    expect(data.map((r: { data: unknown }) => r.data)).toEqual(['a', 42])
+  })
+
+  it('should reject GET batches with mutations', async () => {
+    const save = vi.fn(async () => R.ok('saved', 'RPC_OK'))
+    const router = createRouter({ save: createProcedure().mutation(save) })
+
+    const input = encodeURIComponent(JSON.stringify([{ path: 'save', type: 'mutation' }]))
+    const req = new Request(`http://localhost/rpc?batch=1&input=${input}`)
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    expect(res.status).toBe(400)
+    expect((await res.json()).error.message).toBe('GET batches may only contain queries')
+    expect(save).not.toHaveBeenCalled()
+  })
+
+  it('should create the context once per batch', async () => {
+    const createContext = vi.fn(() => ({ n: 1 }))
+    const proc = createProcedure<{ n: number }>().query(async ({ ctx }) => R.ok(ctx.n, 'RPC_OK'))
+    const router = createRouter({ proc })
+
+    const req = new Request('http://localhost/rpc', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify([
+        { path: 'proc', type: 'query' },
+        { path: 'proc', type: 'query' },
+      ]),
+    })
+
+    await fetchRequestHandler({ router, createContext, req })
+    expect(createContext).toHaveBeenCalledTimes(1)
+  })
+
+  it('should encode batch responses as CBOR', async () => {
+    const proc = createProcedure().query(async () => R.ok({ n: 1 }, 'RPC_OK'))
+    const router = createRouter({ proc })
+    const req = new Request('http://localhost/rpc', {
+      method: 'POST',
+      headers: { 'content-type': 'application/cbor', accept: 'application/cbor' },
+      body: cborEncode([{ path: 'proc', type: 'query' }]) as BodyInit,
+    })
+
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    expect(res.headers.get('content-type')).toContain('application/cbor')
+    const data = cborDecode(new Uint8Array(await res.arrayBuffer()))
+    expect(data).toEqual([{ ok: true, data: { n: 1 }, code: 'RPC_OK' }])
+  })
+
+  it('should reject batches that exceed maxBatchSize', async () => {
+    const proc = createProcedure().query(async () => R.ok({}, 'RPC_OK'))
+    const router = createRouter({ proc })
+    const req = new Request('http://localhost/rpc', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify([
+        { path: 'proc', type: 'query' },
+        { path: 'proc', type: 'query' },
+      ]),
+    })
+
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req, maxBatchSize: 1 })
+
+    expect(res.status).toBe(413)
+  })
+
+  it('should reject batches sent to a procedure path', async () => {
+    const proc = createProcedure().query(async () => R.ok({}, 'RPC_OK'))
+    const router = createRouter({ proc })
+    const req = new Request('http://localhost/rpc/proc?batch=1&input=[]')
+
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    expect(res.status).toBe(400)
+  })
+
+  it('should import lazy routers on the first request under their prefix', async () => {
+    const load = vi.fn(async () => ({
+      billingRouter: createRouter({ total: createProcedure().query(async () => R.ok(42, 'RPC_OK')) }),
+    }))
+    const router = createRouter({ billing: lazy(load) })
+    const handle = (path: string) =>
+      fetchRequestHandler({ router, createContext: () => ({}), req: new Request(`http://localhost/rpc/${path}`) })
+
+    const [a, b, missing] = await Promise.all([
+      handle('billing.total'),
+      handle('billing.total'),
+      handle('billing.nope'),
+    ])
+
+    expect(load).toHaveBeenCalledTimes(1)
+    expect((await a.json()).data).toBe(42)
+    expect((await b.json()).data).toBe(42)
+    expect(missing.status).toBe(404)
+  })
+
+  it('should report thrown errors through onError', async () => {
+    const router = createRouter({
+      fail: createProcedure().query(async () => {
+        throw new Error('db down')
+      }),
+      denied: createProcedure().query(async () => R.err('RPC_FORBIDDEN', 'No access')),
+    })
+    const onError = vi.fn()
+    const handle = (path: string) =>
+      fetchRequestHandler({
+        router,
+        createContext: () => ({ user: 'u1' }),
+        req: new Request(`http://localhost/rpc/${path}`),
+        onError,
+      })
+
+    const res = await handle('fail')
+    expect(res.status).toBe(500)
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError.mock.calls[0]?.[0]).toMatchObject({ path: 'fail', type: 'query', ctx: { user: 'u1' } })
+    expect(onError.mock.calls[0]?.[0].error.cause.message).toBe('db down')
+
+    // Routing errors are reported without a type; returned error results are not reported.
+    await handle('missing')
+    expect(onError.mock.calls[1]?.[0]).toMatchObject({ path: 'missing', type: undefined })
+    await handle('denied')
+    expect(onError).toHaveBeenCalledTimes(2)
+  })
+
+  it('should report createContext failures without a context', async () => {
+    const onError = vi.fn()
+    const res = await fetchRequestHandler({
+      router: createRouter({}),
+      createContext: () => {
+        throw createRPCError({ code: 'RPC_UNAUTHORIZED', message: 'Bad token' })
+      },
+      req: new Request('http://localhost/rpc/anything'),
+      onError,
+    })
+
+    expect(res.status).toBe(401)
+    expect(onError.mock.calls[0]?.[0]).toMatchObject({ ctx: undefined, error: { code: 'RPC_UNAUTHORIZED' } })
+  })
+
+  it('should reshape error payloads with errorFormatter', async () => {
+    const router = createRouter({
+      denied: createProcedure().query(async () => R.err('RPC_FORBIDDEN', 'No access')),
+    })
+    const res = await fetchRequestHandler({
+      router,
+      createContext: () => ({ requestId: 'req-1' }),
+      req: new Request('http://localhost/rpc/denied'),
+      errorFormatter: ({ shape, ctx }) => ({ ...shape, requestId: ctx?.requestId }),
+    })
+
+    expect(res.status).toBe(403)
+    expect(await res.json()).toMatchObject({ ok: false, code: 'RPC_FORBIDDEN', requestId: 'req-1' })
+  })
+
+  it('should send declared errors with a client error status', async () => {
+    const router = createRouter({
+      withdraw: createProcedure()
+        .errors({ INSUFFICIENT_FUNDS: z.object({ balance: z.number() }) })
+        .mutation(async ({ errors }) => {
+          throw errors.INSUFFICIENT_FUNDS({ balance: 1 })
+        }),
+    })
+    const handle = (errorFormat: 'rpc' | 'problem') =>
+      fetchRequestHandler({
+        router,
+        createContext: () => ({}),
+        req: new Request('http://localhost/rpc/withdraw', {
+          method: 'POST',
+          body: JSON.stringify({ type: 'mutation', input: null }),
+        }),
+        errorFormat,
+      })
+
+    const res = await handle('rpc')
+    expect(res.status).toBe(400)
+    expect((await res.json()).error.data).toEqual({ balance: 1 })
+
+    const problem = await handle('problem')
+    expect(problem.status).toBe(400)
+    expect((await problem.json()).status).toBe(400)
+  })
+
+  it('should redact unexpected errors in production mode', async () => {
+    const router = createRouter({
+      fail: createProcedure().query(async () => {
+        throw new Error('password=hunter2')
+      }),
+      driver: createProcedure().query(async () => {
+        throw Object.assign(new Error('connect ECONNREFUSED 10.0.3.7:6379'), { code: 'ECONNREFUSED' })
+      }),
+      denied: createProcedure().query(async () => {
+        throw createRPCError({ code: 'RPC_FORBIDDEN', message: 'No access' })
+      }),
+    })
+    const onError = vi.fn()
+    const handle = (path: string) =>
+      fetchRequestHandler({
+        router,
+        createContext: () => ({}),
+        req: new Request(`http://localhost/rpc/${path}`),
+        errorMode: 'production',
+        onError,
+      })
+
+    const fail = await (await handle('fail')).json()
+    expect(fail.error.message).toBe('Internal server error')
+    expect(JSON.stringify(fail)).not.toContain('hunter2')
+    expect(fail.error.errorId).toBe(onError.mock.calls[0]?.[0].error.errorId)
+
+    const driverRes = await handle('driver')
+    const driver = await driverRes.json()
+    expect(driverRes.status).toBe(500)
+    expect(driver.code).toBe('RPC_INTERNAL_SERVER_ERROR')
+    expect(driver.error.message).toBe('Internal server error')
+    expect(JSON.stringify(driver)).not.toContain('10.0.3.7')
+
+    const denied = await (await handle('denied')).json()
+    expect(denied.error).toEqual({ code: 'RPC_FORBIDDEN', message: 'No access', issues: [] })
+  })
+
+  it('should apply hooks from initRPC().create() to every batched call', async () => {
+    const onError = vi.fn()
+    const t = initRPC<{ id: string }>().create({
+      onError,
+      errorFormatter: ({ shape }) => ({ ...shape, error: { ...shape.error, message: 'Hidden' } }),
+    })
+    const router = t.router({
+      ok: t.procedure().query(async () => R.ok(1, 'RPC_OK')),
+      fail: t.procedure().query(async () => {
+        throw new Error('secret')
+      }),
+    })
+    const req = new Request('http://localhost/rpc', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify([
+        { path: 'ok', type: 'query' },
+        { path: 'fail', type: 'query' },
+      ]),
+    })
+
+    const res = await fetchRequestHandler({ router, createContext: () => ({ id: 'x' }), req })
+    const [ok, fail] = await res.json()
+
+    expect(ok).toEqual({ ok: true, data: 1, code: 'RPC_OK' })
+    expect(fail.error.message).toBe('Hidden')
+    expect(onError).toHaveBeenCalledTimes(1)
+    expect(onError.mock.calls[0]?.[0]).toMatchObject({ path: 'fail', type: 'query' })
+  })
+
+  describe('errorFormat', () => {
+    const router = createRouter({
+      hello: createProcedure()
+        .input(z.object({ name: z.string() }))
+        .query(async ({ input }) => R.ok(`Hi ${input.name}`, 'RPC_OK')),
+    })
+    const call = (errorFormat: 'rpc' | 'problem' | 'negotiate', input: unknown, accept?: string) =>
+      fetchRequestHandler({
+        router,
+        createContext: () => ({}),
+        req: new Request(`http://localhost/rpc/hello?input=${encodeURIComponent(JSON.stringify(input))}`, {
+          ...(accept ? { headers: { accept } } : {}),
+        }),
+        errorFormat,
+      })
+
+    it('should send validation errors as problem details', async () => {
+      const res = await call('problem', { name: 1 })
+
+      expect(res.status).toBe(400)
+      expect(res.headers.get('content-type')).toBe('application/problem+json')
+      const body = await res.json()
+      expect(body).toMatchObject({ status: 400, instance: '/rpc/hello', code: 'RPC_BAD_REQUEST' })
+      expect(body.issues[0].path).toEqual(['name'])
+    })
+
+    it('should keep successes and the default envelope unchanged', async () => {
+      const ok = await call('problem', { name: 'duck' })
+      expect(await ok.json()).toEqual({ ok: true, data: 'Hi duck', code: 'RPC_OK' })
+
+      const err = await call('rpc', { name: 1 }, 'application/problem+json')
+      expect(err.headers.get('content-type')).toBe('application/json')
+      expect((await err.json()).ok).toBe(false)
+    })
+
+    it('should negotiate problem details from the Accept header', async () => {
+      const plain = await call('negotiate', { name: 1 })
+      expect(plain.headers.get('content-type')).toBe('application/json')
+
+      const problem = await call('negotiate', { name: 1 }, 'application/problem+json')
+      expect(problem.headers.get('content-type')).toBe('application/problem+json')
+    })
+  })
+
+  it('should send registered statuses for custom codes', async () => {
+    const t = initRPC()
+      .codes({ RPC_ACCEPTED: 202, RPC_RATE_LIMITED: { status: 429, message: 'Too many requests' } })
+      .create()
+    const router = t.router({
+      queued: t.procedure().mutation(async () => R.ok({ jobId: 'j1' }, 'RPC_ACCEPTED')),
+      limited: t.procedure().query(async () => R.err('RPC_RATE_LIMITED')),
+      custom: t.procedure().query(async () => R.ok(1, 'RPC_UNREGISTERED_OK')),
+    })
+    const call = (path: string, type: string) =>
+      fetchRequestHandler({
+        router,
+        createContext: () => ({}),
+        req: new Request(`http://localhost/rpc/${path}`, {
+          method: 'POST',
+          headers: { 'content-type': 'application/json' },
+          body: JSON.stringify({ type }),
+        }),
+      })
+
+    expect((await call('queued', 'mutation')).status).toBe(202)
+    const limited = await call('limited', 'query')
+    expect(limited.status).toBe(429)
+    expect((await limited.json()).error.message).toBe('Too many requests')
+    // Unregistered success codes no longer produce an undefined status.
+    expect((await call('custom', 'query')).status).toBe(200)
+  })
+
+  it('should resolve custom codes per router', async () => {
+    const a = initRPC().codes({ RPC_QUOTA: 429 }).create()
+    const b = initRPC().codes({ RPC_QUOTA: 402 }).create()
+    const quota = async () => {
+      throw createRPCError({ code: 'RPC_QUOTA' })
+    }
+    const call = (router: AnyRPCRouter) =>
+      fetchRequestHandler({ router, createContext: () => ({}), req: new Request('http://localhost/rpc/quota') })
+
+    expect((await call(a.router({ quota: a.procedure().query(quota) }))).status).toBe(429)
+    expect((await call(b.router({ quota: b.procedure().query(quota) }))).status).toBe(402)
+    expect((await call(createRouter({ quota: createProcedure().query(quota) }))).status).toBe(500)
+  })
+  describe('Accept negotiation', () => {
+    const resolver = vi.fn(async () => R.ok({ saved: true }, 'RPC_OK'))
+    const seen: unknown[] = []
+    const router = createRouter({
+      save: createProcedure()
+        .use(async ({ format, next }) => {
+          seen.push(format)
+          return next()
+        })
+        .mutation(resolver),
+    })
+    const call = (accept: string) =>
+      fetchRequestHandler({
+        router,
+        createContext: () => ({}),
+        req: new Request('http://localhost/rpc/save', {
+          method: 'POST',
+          headers: { 'content-type': 'application/json', accept },
+          body: JSON.stringify({ type: 'mutation' }),
+        }),
+      })
+
+    it('should answer 406 without running the procedure when nothing is acceptable', async () => {
+      const res = await call('text/html, application/xml;q=0.9')
+
+      expect(res.status).toBe(406)
+      expect(res.headers.get('content-type')).toBe('application/json')
+      expect((await res.json()).code).toBe('RPC_NOT_ACCEPTABLE')
+      expect(resolver).not.toHaveBeenCalled()
+    })
+
+    it('should hand the negotiated format to middleware', async () => {
+      const res = await call('application/json;q=0.5, application/msgpack')
+
+      expect(res.headers.get('content-type')).toBe('application/msgpack')
+      expect(seen.at(-1)).toBe('msgpack')
+    })
+  })
+
+  describe('compression', () => {
+    const rows = Array.from({ length: 200 }, (_, i) => ({ id: i, name: `row ${i}` }))
+    const router = createRouter({
+      report: createProcedure().query(async () => R.ok(rows, 'RPC_OK')),
+      secret: createProcedure()
+        .meta({ compression: false })
+        .query(async () => R.ok(rows, 'RPC_OK')),
+      small: createProcedure().query(async () => R.ok({ n: 1 }, 'RPC_OK')),
+    })
+    const call = (target: string, headers: Record<string, string> = {}) =>
+      fetchRequestHandler({
+        router,
+        createContext: () => ({}),
+        compression: true,
+        req: new Request(`http://localhost/rpc${target}`, {
+          headers: { 'accept-encoding': 'gzip, deflate', ...headers },
+        }),
+      })
+    const gunzip = async (res: Response) =>
+      new Uint8Array(await new Response(res.body?.pipeThrough(new DecompressionStream('gzip'))).arrayBuffer())
+
+    it('should gzip large responses the client accepts', async () => {
+      const res = await call('/report')
+
+      expect(res.headers.get('content-encoding')).toBe('gzip')
+      expect(res.headers.get('vary')).toBe('accept-encoding')
+      expect(JSON.parse(new TextDecoder().decode(await gunzip(res))).data).toEqual(rows)
+    })
+
+    it('should compress CBOR bodies too', async () => {
+      const res = await call('/report', { accept: 'application/cbor' })
+
+      expect(res.headers.get('content-encoding')).toBe('gzip')
+      expect(cborDecode(await gunzip(res)).data).toEqual(rows)
+    })
+
+    it('should skip small bodies, opted out procedures and clients without Accept-Encoding', async () => {
+      const small = await call('/small')
+      const secret = await call('/secret')
+      const identity = await call('/report', { 'accept-encoding': 'identity' })
+
+      expect(small.headers.has('content-encoding')).toBe(false)
+      expect(secret.headers.has('content-encoding')).toBe(false)
+      expect(identity.headers.has('content-encoding')).toBe(false)
+      expect((await secret.json()).data).toEqual(rows)
+    })
+
+    it('should leave the whole batch uncompressed when one call opts out', async () => {
+      const batch = (...paths: string[]) =>
+        `?batch=1&input=${encodeURIComponent(JSON.stringify(paths.map((path) => ({ path }))))}`
+      const compressed = await call(batch('report', 'small'))
+      const plain = await call(batch('report', 'secret'))
+
+      expect(compressed.headers.get('content-encoding')).toBe('gzip')
+      expect(plain.headers.has('content-encoding')).toBe(false)
+    })
+
+    it('should not compress unless enabled', async () => {
+      const res = await fetchRequestHandler({
+        router,
+        createContext: () => ({}),
+        req: new Request('http://localhost/rpc/report', { headers: { 'accept-encoding': 'gzip' } }),
+      })
+
+      expect(res.headers.has('content-encoding')).toBe(false)
+      expect(res.headers.has('vary')).toBe(false)
+    })
+  })
+
+  describe('deadlines', () => {
+    const request = (path: string, timeout?: string) =>
+      new Request(`http://localhost/rpc/${path}`, { headers: timeout ? { 'x-rpc-timeout': timeout } : {} })
+
+    it('should hand the remaining budget and an aborting signal to the resolver', async () => {
+      let remaining = 0
+      let reason: unknown
+      const router = createRouter({
+        slow: createProcedure().query(async ({ signal, remainingMs }) => {
+          remaining = remainingMs()
+          await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }))
+          reason = signal.reason
+          return R.ok('late', 'RPC_OK')
+        }),
+      })
+
+      await fetchRequestHandler({ router, createContext: () => ({}), req: request('slow', '20') })
+
+      expect(remaining).toBeGreaterThan(0)
+      expect(remaining).toBeLessThanOrEqual(20)
+      expect(reason).toMatchObject({ code: 'RPC_TIMEOUT' })
+    })
+
+    it('should skip procedures whose deadline already passed', async () => {
+      const resolver = vi.fn(async () => R.ok('done', 'RPC_OK'))
+      const router = createRouter({ save: createProcedure().query(resolver) })
+
+      const res = await fetchRequestHandler({ router, createContext: () => ({}), req: request('save', '0') })
+
+      expect(res.status).toBe(408)
+      expect((await res.json()).code).toBe('RPC_TIMEOUT')
+      expect(resolver).not.toHaveBeenCalled()
+    })
+
+    it('should clamp timeouts longer than a timer can wait', async () => {
+      const router = createRouter({
+        budget: createProcedure().query(async ({ signal, remainingMs }) => {
+          await new Promise((resolve) => setTimeout(resolve, 5))
+          return R.ok({ remaining: remainingMs(), aborted: signal.aborted }, 'RPC_OK')
+        }),
+      })
+
+      const res = await fetchRequestHandler({ router, createContext: () => ({}), req: request('budget', '3000000000') })
+      const { data } = await res.json()
+
+      expect(res.status).toBe(200)
+      expect(data.aborted).toBe(false)
+      expect(data.remaining).toBeGreaterThan(2 ** 31 - 1000)
+      expect(data.remaining).toBeLessThanOrEqual(2 ** 31 - 1)
+    })
+
+    it('should report an unbounded budget without a timeout header', async () => {
+      const router = createRouter({
+        budget: createProcedure().query(async ({ signal, remainingMs }) =>
+          R.ok({ remaining: remainingMs(), aborted: signal.aborted }, 'RPC_OK'),
+        ),
+      })
+
+      const res = await fetchRequestHandler({ router, createContext: () => ({}), req: request('budget', 'soon') })
+
+      // JSON has no Infinity, so it arrives as null.
+      expect((await res.json()).data).toEqual({ remaining: null, aborted: false })
+    })
+  })
 })
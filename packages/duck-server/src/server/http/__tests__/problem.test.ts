@@ -0,0 +1,82 @@
+/**
+ * Tests for RFC 9457 problem details.
+ *
+ * Covers:
+ * - Error payload mapping
+ * - Format negotiation
+ */
+
+import { describe, expect, it } from 'vitest'
+import { RPCRes as R } from '../../core/response'
+import { PROBLEM_CONTENT_TYPE, serializeProblem, toProblemDetails, wantsProblemDetails } from '../problem'
+
+describe('toProblemDetails', () => {
+  it('should map the error payload onto problem members', () => {
+    const res = R.err('RPC_NOT_FOUND', 'User not found')
+    if (res.ok) throw new Error('expected an error result')
+
+    expect(toProblemDetails(res, 404, '/rpc/user.get')).toEqual({
+      type: 'urn:rpc:error:RPC_NOT_FOUND',
+      title: 'Not Found',
+      status: 404,
+      detail: 'User not found',
+      instance: '/rpc/user.get',
+      code: 'RPC_NOT_FOUND',
+    })
+  })
+
+  it('should keep issues and extra fields as extension members', () => {
+    const shape = {
+      ok: false as const,
+      code: 'RPC_BAD_REQUEST' as const,
+      error: {
+        code: 'RPC_BAD_REQUEST' as const,
+        message: 'Invalid input',
+        issues: [{ message: 'Required', path: ['name'] }],
+      },
+      requestId: 'req-1',
+    }
+
+    expect(toProblemDetails(shape, 400, '/rpc/user.create')).toMatchObject({
+      title: 'Bad Request',
+      issues: [{ message: 'Required', path: ['name'] }],
+      requestId: 'req-1',
+    })
+  })
+})
+
+describe('wantsProblemDetails', () => {
+  const req = (accept?: string) => new Request('http://localhost/rpc', accept ? { headers: { accept } } : {})
+
+  it('should follow the configured format', () => {
+    expect(wantsProblemDetails(req(), 'rpc')).toBe(false)
+    expect(wantsProblemDetails(req(PROBLEM_CONTENT_TYPE), 'rpc')).toBe(false)
+    expect(wantsProblemDetails(req(), 'problem')).toBe(true)
+  })
+
+  it('should negotiate on the Accept header', () => {
+    expect(wantsProblemDetails(req('application/json'), 'negotiate')).toBe(false)
+    expect(wantsProblemDetails(req('application/json, application/problem+json'), 'negotiate')).toBe(true)
+  })
+
+  it('should respect q-values', () => {
+    expect(wantsProblemDetails(req('application/problem+json;q=0'), 'negotiate')).toBe(false)
+    expect(wantsProblemDetails(req('application/problem+json;q=0.5, application/json'), 'negotiate')).toBe(false)
+    expect(wantsProblemDetails(req('application/problem+json, application/json;q=0.9'), 'negotiate')).toBe(true)
+    expect(wantsProblemDetails(req('*/*'), 'negotiate')).toBe(false)
+  })
+})
+
+describe('serializeProblem', () => {
+  it('should send problem+json with the error status', async () => {
+    const res = R.err('RPC_FORBIDDEN', 'No access')
+    if (res.ok) throw new Error('expected an error result')
+
+    const out = serializeProblem(res, 403, { 'x-powered-by': 'duck-server' }, '/rpc/admin')
+
+    expect(out.status).toBe(403)
+    expect(out.headers.get('content-type')).toBe(PROBLEM_CONTENT_TYPE)
+    expect(out.headers.get('x-powered-by')).toBe('duck-server')
+    expect((await out.json()).detail).toBe('No access')
+  })
+})
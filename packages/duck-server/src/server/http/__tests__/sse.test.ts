@@ -0,0 +1,209 @@
+/**
+ * Tests for Server-Sent Events subscriptions.
+ *
+ * Covers:
+ * - SSE message formatting
+ * - Streaming subscription events
+ * - Heartbeats
+ * - Last-Event-ID resume
+ * - Event ids that would inject fields
+ * - Cleanup on abort
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { createProcedure } from '../../core/procedure'
+import { RPCRes as R } from '../../core/response'
+import { createRouter } from '../../core/router'
+import { tracked } from '../../core/subscription'
+import { fetchRequestHandler } from '../fetch'
+import { formatSSEMessage } from '../sse'
+
+/** Parse an SSE body into `{ event, id, data }` records. */
+function parseSSE(text: string) {
+  return text
+    .split('\n\n')
+    .filter(Boolean)
+    .map((block) => {
+      const msg: { event?: string; id?: string; data?: unknown } = {}
+      for (const line of block.split('\n')) {
+        const [field, ...rest] = line.split(': ')
+        const value = rest.join(': ')
+        if (field === 'event') msg.event = value
+        if (field === 'id') msg.id = value
+        if (field === 'data') msg.data = JSON.parse(value)
+      }
+      return msg
+    })
+}
+
+describe('formatSSEMessage', () => {
+  it('should format id, event and data fields', () => {
+    expect(formatSSEMessage({ event: 'data', id: '1', data: '{"a":1}' })).toBe('id: 1\nevent: data\ndata: {"a":1}\n\n')
+  })
+
+  it('should split multi-line data', () => {
+    expect(formatSSEMessage({ event: 'data', data: 'a\nb' })).toBe('event: data\ndata: a\ndata: b\n\n')
+  })
+})
+
+describe('fetchRequestHandler subscriptions', () => {
+  it('should stream events as RPCResType frames', async () => {
+    const proc = createProcedure()
+      .input(z.object({ count: z.number() }))
+      .subscription(async function* ({ input }) {
+        for (let i = 1; i <= input.count; i++) yield tracked(String(i), { n: i })
+      })
+    const router = createRouter({ counter: proc })
+
+    const input = encodeURIComponent(JSON.stringify({ count: 2 }))
+    const req = new Request(`http://localhost/rpc/counter?type=subscription&input=${input}`)
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toBe('text/event-stream')
+    expect(parseSSE(await res.text())).toEqual([
+      { event: 'data', id: '1', data: { ok: true, data: { n: 1 }, code: 'RPC_OK' } },
+      { event: 'data', id: '2', data: { ok: true, data: { n: 2 }, code: 'RPC_OK' } },
+      { event: 'complete', data: {} },
+    ])
+  })
+
+  it('should send an error frame when the resolver throws mid-stream', async () => {
+    const proc = createProcedure().subscription(async function* () {
+      yield 1
+      throw new Error('boom')
+    })
+    const router = createRouter({ sub: proc })
+
+    const req = new Request('http://localhost/rpc/sub?type=subscription')
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+    const events = parseSSE(await res.text())
+
+    expect(events[1]?.event).toBe('error')
+    expect(events[1]?.data).toMatchObject({ ok: false, code: 'RPC_INTERNAL_SERVER_ERROR' })
+  })
+
+  it('should refuse event ids that would inject SSE fields', async () => {
+    const proc = createProcedure().subscription(async function* () {
+      yield tracked('1', 'ok')
+      yield tracked('2\nevent: complete\ndata: {}\n\nid: 3', 'forged')
+    })
+    const router = createRouter({ sub: proc })
+
+    const req = new Request('http://localhost/rpc/sub?type=subscription')
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+    const events = parseSSE(await res.text())
+
+    expect(events.map((event) => event.event)).toEqual(['data', 'error'])
+    expect(events[1]?.data).toMatchObject({ code: 'RPC_INTERNAL_SERVER_ERROR' })
+    expect(() => tracked('a\rb', 1)).toThrow('Event ids must not contain CR, LF or NUL')
+    expect(() => tracked('a\0b', 1)).toThrow('Event ids must not contain CR, LF or NUL')
+  })
+
+  it('should return a normal error response when the subscription fails to start', async () => {
+    const proc = createProcedure()
+      .use(async () => ({ ok: false, error: { code: 'RPC_UNAUTHORIZED', message: 'No', name: 'Error', issues: [] } }))
+      .subscription(async function* () {
+        yield 1
+      })
+    const router = createRouter({ sub: proc })
+
+    const req = new Request('http://localhost/rpc/sub?type=subscription')
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    expect(res.status).toBe(401)
+    expect(res.headers.get('content-type')).toContain('application/json')
+  })
+
+  it('should pass Last-Event-ID to the resolver', async () => {
+    const proc = createProcedure().subscription(async function* ({ lastEventId }) {
+      yield lastEventId
+    })
+    const router = createRouter({ sub: proc })
+
+    const req = new Request('http://localhost/rpc/sub?type=subscription', { headers: { 'last-event-id': '41' } })
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    expect(parseSSE(await res.text())[0]?.data).toEqual({ ok: true, data: '41', code: 'RPC_OK' })
+  })
+
+  it('should send heartbeat events while idle', async () => {
+    vi.useFakeTimers()
+    try {
+      let release: () => void = () => {}
+      const proc = createProcedure().subscription(async function* () {
+        await new Promise<void>((resolve) => {
+          release = resolve
+        })
+        yield 'done'
+      })
+      const router = createRouter({ sub: proc })
+
+      const req = new Request('http://localhost/rpc/sub?type=subscription')
+      const res = await fetchRequestHandler({ router, createContext: () => ({}), req, sse: { heartbeatMs: 10 } })
+      const text = res.text()
+
+      await vi.advanceTimersByTimeAsync(25)
+      release()
+      const events = parseSSE(await text)
+
+      expect(events.filter((e) => e.event === 'heartbeat')).toHaveLength(2)
+      expect(events.at(-1)?.event).toBe('complete')
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('should clean up when the request signal aborts', async () => {
+    let resolverSignal: AbortSignal | undefined
+    const proc = createProcedure().subscription(async function* ({ signal }) {
+      resolverSignal = signal
+      while (!signal.aborted) {
+        yield 'tick'
+        await new Promise((resolve) => setTimeout(resolve, 5))
+      }
+    })
+    const router = createRouter({ sub: proc })
+
+    const controller = new AbortController()
+    const req = new Request('http://localhost/rpc/sub?type=subscription', { signal: controller.signal })
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+
+    const reader = res.body!.getReader()
+    await reader.read()
+    controller.abort()
+
+    let done = false
+    while (!done) done = (await reader.read()).done
+    expect(resolverSignal?.aborted).toBe(true)
+  })
+
+  it('should reject subscriptions inside a batch', async () => {
+    const proc = createProcedure().subscription(async function* () {
+      yield 1
+    })
+    const router = createRouter({ sub: proc })
+
+    const req = new Request('http://localhost/rpc', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify([{ path: 'sub', type: 'subscription' }]),
+    })
+    const res = await fetchRequestHandler({ router, createContext: () => ({}), req })
+    const data = await res.json()
+
+    expect(data[0]).toMatchObject({ ok: false, code: 'RPC_BAD_REQUEST' })
+  })
+
+  it('should still serve queries next to subscriptions', async () => {
+    const router = createRouter({ q: createProcedure().query(async () => R.ok(1, 'RPC_OK')) })
+    const res = await fetchRequestHandler({
+      router,
+      createContext: () => ({}),
+      req: new Request('http://localhost/rpc/q?type=query'),
+    })
+
+    expect(await res.json()).toEqual({ ok: true, data: 1, code: 'RPC_OK' })
+  })
+})
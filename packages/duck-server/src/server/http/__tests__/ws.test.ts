@@ -0,0 +1,225 @@
+/**
+ * Tests for the WebSocket transport.
+ *
+ * Covers:
+ * - Multiplexed queries and mutations
+ * - Subscriptions and stop messages
+ * - JSON and CBOR frames
+ * - Connection and per-message context
+ * - Deadlines and aborting calls on close
+ * - Hono event handlers
+ */
+
+import { decode as cborDecode, encode as cborEncode } from 'cbor-x'
+import { describe, expect, it, vi } from 'vitest'
+import { z } from 'zod'
+import { createProcedure } from '../../core/procedure'
+import { RPCRes as R } from '../../core/response'
+import { createRouter } from '../../core/router'
+import { tracked } from '../../core/subscription'
+import { rpcWebSocket } from '../hono'
+import { createWSConnection, type WSServerMessage } from '../ws'
+
+type Ctx = { user: string }
+
+const waiting: AbortSignal[] = []
+
+const router = createRouter({
+  echo: createProcedure<Ctx>()
+    .input(z.string())
+    .query(async ({ input, ctx }) => R.ok(`${ctx.user}:${input}`, 'RPC_OK')),
+  save: createProcedure<Ctx>().mutation(async () => R.ok({ saved: true }, 'RPC_CREATED')),
+  ticks: createProcedure<Ctx>()
+    .input(z.number())
+    .subscription(async function* ({ input, lastEventId }) {
+      for (let i = Number(lastEventId ?? 0) + 1; i <= input; i++) yield tracked(String(i), i)
+    }),
+  wait: createProcedure<Ctx>().query(async ({ signal, remainingMs }) => {
+    const remaining = remainingMs()
+    waiting.push(signal)
+    await new Promise((resolve) => signal.addEventListener('abort', resolve, { once: true }))
+    return R.ok({ remaining, reason: (signal.reason as { code?: string }).code }, 'RPC_OK')
+  }),
+  forever: createProcedure<Ctx>().subscription(async function* ({ signal }) {
+    while (!signal.aborted) {
+      yield 'tick'
+      await new Promise((resolve) => setTimeout(resolve, 1))
+    }
+  }),
+})
+
+/** Open a connection that collects decoded server messages. */
+function connect(opts: { createContext?: () => Ctx } = {}) {
+  const sent: WSServerMessage[] = []
+  const createContext = vi.fn(opts.createContext ?? (() => ({ user: 'ada' })))
+  const conn = createWSConnection<Ctx>({
+    router,
+    createContext,
+    req: new Request('http://localhost/rpc/ws'),
+    send: (data) => sent.push(typeof data === 'string' ? JSON.parse(data) : cborDecode(data)),
+  })
+  return { conn, sent, createContext }
+}
+
+describe('createWSConnection', () => {
+  it('should answer queries and mutations by id', async () => {
+    const { conn, sent } = connect()
+
+    await Promise.all([
+      conn.receive(JSON.stringify({ id: 1, method: 'query', path: 'echo', input: 'hi' })),
+      conn.receive(JSON.stringify({ id: 2, method: 'mutation', path: 'save' })),
+    ])
+
+    expect(sent).toContainEqual({ id: 1, type: 'result', result: { ok: true, data: 'ada:hi', code: 'RPC_OK' } })
+    expect(sent).toContainEqual({
+      id: 2,
+      type: 'result',
+      result: { ok: true, data: { saved: true }, code: 'RPC_CREATED' },
+    })
+  })
+
+  it('should create the context once per connection', async () => {
+    const { conn, createContext } = connect()
+
+    await conn.receive(JSON.stringify({ id: 1, method: 'query', path: 'echo', input: 'a' }))
+    await conn.receive(JSON.stringify({ id: 2, method: 'query', path: 'echo', input: 'b' }))
+
+    expect(createContext).toHaveBeenCalledTimes(1)
+  })
+
+  it('should derive a per-message context', async () => {
+    const sent: WSServerMessage[] = []
+    const conn = createWSConnection<Ctx>({
+      router,
+      createContext: () => ({ user: 'anon' }),
+      createMessageContext: ({ ctx, message }) => ({ ...ctx, user: message.headers?.['x-user'] ?? ctx.user }),
+      req: new Request('http://localhost/rpc/ws'),
+      send: (data) => sent.push(JSON.parse(data as string)),
+    })
+
+    await conn.receive(
+      JSON.stringify({ id: 1, method: 'query', path: 'echo', input: 'x', headers: { 'x-user': 'bob' } }),
+    )
+
+    expect(sent[0]).toMatchObject({ result: { data: 'bob:x' } })
+  })
+
+  it('should return routing and validation errors as results', async () => {
+    const { conn, sent } = connect()
+
+    await conn.receive(JSON.stringify({ id: 1, method: 'query', path: 'missing' }))
+    await conn.receive(JSON.stringify({ id: 2, method: 'query', path: 'echo', input: 1 }))
+    await conn.receive(JSON.stringify({ id: 3, method: 'mutation', path: 'echo', input: 'x' }))
+
+    expect(sent.map((m) => (m.type === 'result' ? m.result.code : null))).toEqual([
+      'RPC_NOT_FOUND',
+      'RPC_BAD_REQUEST',
+      'RPC_BAD_REQUEST',
+    ])
+  })
+
+  it('should answer CBOR frames with CBOR', async () => {
+    const frames: (string | Uint8Array)[] = []
+    const conn = createWSConnection<Ctx>({
+      router,
+      createContext: () => ({ user: 'ada' }),
+      req: new Request('http://localhost/rpc/ws'),
+      send: (data) => frames.push(data),
+    })
+
+    await conn.receive(cborEncode({ id: 1, method: 'query', path: 'echo', input: 'bin' }))
+
+    expect(frames[0]).toBeInstanceOf(Uint8Array)
+    expect(cborDecode(frames[0] as Uint8Array)).toMatchObject({ id: 1, result: { data: 'ada:bin' } })
+  })
+
+  it('should stream subscriptions and resume from lastEventId', async () => {
+    const { conn, sent } = connect()
+
+    await conn.receive(JSON.stringify({ id: 7, method: 'subscription', path: 'ticks', input: 3, lastEventId: '1' }))
+
+    expect(sent).toEqual([
+      { id: 7, type: 'data', eventId: '2', result: { ok: true, data: 2, code: 'RPC_OK' } },
+      { id: 7, type: 'data', eventId: '3', result: { ok: true, data: 3, code: 'RPC_OK' } },
+      { id: 7, type: 'complete' },
+    ])
+  })
+
+  it('should stop a subscription on request', async () => {
+    const { conn, sent } = connect()
+
+    const running = conn.receive(JSON.stringify({ id: 1, method: 'subscription', path: 'forever' }))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await conn.receive(JSON.stringify({ id: 1, method: 'subscription.stop' }))
+    await running
+
+    expect(sent.at(-1)).toEqual({ id: 1, type: 'complete' })
+  })
+
+  it('should keep a running subscription when a message reuses its id', async () => {
+    const { conn, sent } = connect()
+
+    const running = conn.receive(JSON.stringify({ id: 1, method: 'subscription', path: 'forever' }))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    await conn.receive(JSON.stringify({ id: 1, method: 'subscription', path: 'forever' }))
+    await conn.receive(JSON.stringify({ id: 1, method: 'query', path: 'missing' }))
+    await conn.receive(JSON.stringify({ id: 1, method: 'subscription.stop' }))
+    await running
+
+    const results = sent.filter((msg) => msg.type === 'result')
+    expect(results.map((msg) => msg.type === 'result' && msg.result.code)).toEqual(['RPC_CONFLICT', 'RPC_NOT_FOUND'])
+    expect(sent.at(-1)).toEqual({ id: 1, type: 'complete' })
+  })
+
+  it('should abort calls when their timeout passes', async () => {
+    const { conn, sent } = connect()
+
+    await conn.receive(JSON.stringify({ id: 1, method: 'query', path: 'wait', timeoutMs: 20 }))
+
+    const res = sent[0]?.type === 'result' ? sent[0].result : undefined
+    expect(res?.ok && res.data).toMatchObject({ reason: 'RPC_TIMEOUT' })
+    expect(res?.ok && (res.data as { remaining: number }).remaining).toBeLessThanOrEqual(20)
+  })
+
+  it('should abort running calls when the connection closes', async () => {
+    const { conn, sent } = connect()
+    waiting.length = 0
+
+    const pending = conn.receive(JSON.stringify({ id: 1, method: 'query', path: 'wait' }))
+    await vi.waitFor(() => expect(waiting).toHaveLength(1))
+    conn.close()
+    await pending
+
+    expect(waiting[0]?.aborted).toBe(true)
+    expect(sent).toEqual([])
+  })
+
+  it('should stop every subscription when the connection closes', async () => {
+    const { conn } = connect()
+
+    const running = conn.receive(JSON.stringify({ id: 1, method: 'subscription', path: 'forever' }))
+    await new Promise((resolve) => setTimeout(resolve, 5))
+    conn.close()
+
+    await expect(running).resolves.toBeUndefined()
+  })
+})
+
+describe('rpcWebSocket', () => {
+  it('should wire Hono WebSocket events to a connection', async () => {
+    const sent: string[] = []
+    const events = rpcWebSocket<Ctx>({ router, createContext: () => ({ user: 'hono' }) })({
+      req: { raw: new Request('http://localhost/rpc/ws') },
+    } as never)
+    const ws = { send: (data: string) => sent.push(data) } as never
+
+    events.onOpen?.(new Event('open'), ws)
+    await events.onMessage?.(
+      new MessageEvent('message', { data: JSON.stringify({ id: 1, method: 'query', path: 'echo', input: 'x' }) }),
+      ws,
+    )
+    events.onClose?.(new Event('close') as never, ws)
+
+    expect(JSON.parse(sent[0]!)).toMatchObject({ id: 1, result: { data: 'hono:x' } })
+  })
+})
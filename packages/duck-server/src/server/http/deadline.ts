@@ -0,0 +1,62 @@
+import { createRPCError } from '../core/error'
+
+/**
+ * Request header carrying how long the caller will wait, in ms.
+ * It is relative rather than a timestamp, so clock skew between client and server does not matter.
+ */
+export const TIMEOUT_HEADER = 'x-rpc-timeout'
+
+/** Longest timeout honoured, in ms: the most `setTimeout` can wait (about 24.8 days); larger values are clamped. */
+export const MAX_TIMEOUT_MS = 2 ** 31 - 1
+
+/** Signal and deadline of one request. */
+export type RequestDeadline = {
+  /** Fires when the parent signal aborts, ex: the client disconnects, or the deadline passes. */
+  signal: AbortSignal
+  /** Epoch ms by which the caller stops waiting, `undefined` without a timeout header. */
+  deadline: number | undefined
+  /** Stop the deadline timer once the response is ready. */
+  dispose: () => void
+}
+
+/** Read a timeout in ms, clamped to {@link MAX_TIMEOUT_MS}. Anything but a whole, non-negative number is ignored. */
+export function toTimeoutMs(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0
+    ? Math.min(value, MAX_TIMEOUT_MS)
+    : undefined
+}
+
+/** Parse a timeout header value, clamped to {@link MAX_TIMEOUT_MS}. Anything but a whole number of ms is ignored. */
+export function parseTimeoutHeader(value: string | null | undefined): number | undefined {
+  const trimmed = value?.trim()
+  return trimmed && /^\d+$/.test(trimmed) ? toTimeoutMs(Number(trimmed)) : undefined
+}
+
+/** Derive the abort signal and deadline of `req` from its client connection and timeout header. */
+export function createRequestDeadline(req: Request): RequestDeadline {
+  return createDeadline(parseTimeoutHeader(req.headers.get(TIMEOUT_HEADER)), req.signal)
+}
+
+/** Signal that follows `parent` and also aborts with `RPC_TIMEOUT` after `timeoutMs`, if given. */
+export function createDeadline(timeoutMs: number | undefined, parent: AbortSignal): RequestDeadline {
+  if (timeoutMs === undefined) return { signal: parent, deadline: undefined, dispose: () => {} }
+
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(parent.reason)
+  const expire = () =>
+    controller.abort(createRPCError({ code: 'RPC_TIMEOUT', message: `Deadline of ${timeoutMs}ms exceeded` }))
+  // A spent budget aborts right away, before any work starts.
+  const timer = timeoutMs > 0 ? setTimeout(expire, timeoutMs) : undefined
+  if (timeoutMs === 0) expire()
+  if (parent.aborted) onAbort()
+  else parent.addEventListener('abort', onAbort, { once: true })
+
+  return {
+    signal: controller.signal,
+    deadline: Date.now() + timeoutMs,
+    dispose: () => {
+      clearTimeout(timer)
+      parent.removeEventListener('abort', onAbort)
+    },
+  }
+}
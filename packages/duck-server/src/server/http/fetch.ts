@@ -1,16 +1,43 @@
-import { RPC_CODES } from '../core/codes'
+import { RPC_CODES, type RPCCodeTable } from '../core/codes'
+import { createErrorHooks, type ErrorHooks, mergeRPCConfig, type RPCConfig, type RPCErrorShape } from '../core/config'
 import { createRPCError } from '../core/error'
-import { rpcToErr } from '../core/response'
+import type { AnyProc, ProcedureType } from '../core/procedure'
+import { getResultStatus, type RPCResType, rpcToErr } from '../core/response'
 import type { RPCRouter } from '../core/router'
-import { getProcedureAtPath } from '../core/router'
-import { type BodyReader, decodeRequestBody, resolveResponseFormat, serializeResponse } from '../serialization/codec'
+import { resolveProcedureAtPath } from '../core/router'
+import type { SubscriptionEvent } from '../core/subscription'
+import {
+  type BodyReader,
+  type Codec,
+  decodeRequestBody,
+  negotiateResponseFormat,
+  type ResponseFormat,
+  requestCodec,
+  resolveCodecs,
+  serializeResponse,
+} from '../serialization/codec'
+import {
+  availableEncodings,
+  type CompressionMeta,
+  type CompressionOptions,
+  compressResponse,
+  negotiateEncoding,
+} from '../serialization/compression'
+import { type DataTransformer, deserializeInput, transformResult, usesTransformer } from '../serialization/transformer'
+import { createRequestDeadline } from './deadline'
+import { type ErrorFormat, serializeProblem, wantsProblemDetails } from './problem'
 import { getRequestMetadata } from './request-metadata'
+import { createSSEResponse } from './sse'
 
 /** Context creation input for fetch-based handlers. */
 export type CreateContextOpts = { req: Request }
 
-/** Options for handling an RPC request via the Fetch API. */
-export type FetchRequestHandlerOptions<TCtx> = {
+/**
+ * Options for handling an RPC request via the Fetch API.
+ * `onError`, `errorFormatter` and `errorMode` override the ones set on the router by `initRPC().create()`;
+ * `codes` adds to its custom codes.
+ */
+export type FetchRequestHandlerOptions<TCtx> = RPCConfig<TCtx> & {
   router: RPCRouter<any>
   createContext: (opts: CreateContextOpts) => Promise<TCtx> | TCtx
   endpoint?: string // default "/rpc"
@@ -20,6 +47,24 @@ export type FetchRequestHandlerOptions<TCtx> = {
   bodyReader?: BodyReader
   /** Optional content-type override used with a body reader. */
   contentType?: string | null
+  /** Maximum number of calls accepted in one batch, default: 50. */
+  maxBatchSize?: number
+  /** Body format for error responses, default: `'rpc'`. Batch results always use the RPC envelope. */
+  errorFormat?: ErrorFormat
+  /** Transformer for inputs and result data in non-CBOR bodies; clients must use the same one. */
+  transformer?: DataTransformer
+  /** Extra body codecs, checked before the built-in JSON, CBOR and MessagePack ones. */
+  codecs?: Codec[]
+  /**
+   * Compress responses negotiated through `Accept-Encoding`, `true` for the defaults.
+   * Procedures opt out with `.meta({ compression: false })`; event streams are never compressed.
+   */
+  compression?: boolean | CompressionOptions
+  /** Server-Sent Events options for subscription procedures. */
+  sse?: {
+    /** Interval between heartbeat events in ms, `0` disables them. Default: 15000. */
+    heartbeatMs?: number
+  }
 }
 
 /** Default headers applied to RPC responses. */
@@ -37,12 +82,61 @@ export async function fetchRequestHandler<TCtx>({
   headers,
   bodyReader,
   contentType,
+  maxBatchSize = 50,
+  errorFormat = 'rpc',
+  transformer,
+  codecs,
+  compression,
+  sse,
+  onError,
+  errorFormatter,
+  errorMode,
+  codes,
 }: FetchRequestHandlerOptions<TCtx>): Promise<Response> {
   // Get or create request metadata (stored in WeakMap to avoid memory leaks)
   const metadata = getRequestMetadata(req)
 
   const resHeaders = headers ?? DEFAULT_HEADERS
-  const responseFormat = resolveResponseFormat(req)
+  const registry = resolveCodecs(codecs)
+  const negotiated = negotiateResponseFormat(req, registry)
+  // Errors are still sent, as JSON, when `Accept` rules out every codec.
+  const responseFormat = negotiated ?? 'json'
+  const assertAcceptable = () => {
+    if (negotiated) return
+    throw createRPCError({
+      code: 'RPC_NOT_ACCEPTABLE',
+      message: `Accept must allow one of: ${registry.map((codec) => codec.contentType).join(', ')}`,
+    })
+  }
+  const config = mergeRPCConfig<TCtx>(router._def.config, { onError, errorFormatter, errorMode, codes })
+  const problem = wantsProblemDetails(req, errorFormat)
+  const writeResult = (res: RPCResType<unknown>) =>
+    transformer && usesTransformer(responseFormat) ? transformResult(res, transformer.serialize) : res
+  const compressionOpts = compression === true ? {} : compression || undefined
+  const encoding = compressionOpts
+    ? negotiateEncoding(req.headers.get('accept-encoding'), availableEncodings(compressionOpts))
+    : undefined
+  // Cleared when a procedure in the response opts out through meta.
+  let compressible = true
+  const optOut = (proc: AnyProc) => {
+    if ((proc._meta as CompressionMeta | undefined)?.compression === false) compressible = false
+  }
+  const compress = (res: Response) =>
+    compressionOpts && compressible ? compressResponse(res, encoding, compressionOpts) : res
+  const send = (res: RPCResType<unknown>, status: number) =>
+    compress(
+      problem && !res.ok
+        ? serializeProblem(writeResult(res) as RPCErrorShape, status, resHeaders, new URL(req.url).pathname)
+        : serializeResponse(writeResult(res), status, resHeaders, responseFormat, registry),
+    )
+
+  // Fires on client disconnect and when the `x-rpc-timeout` budget runs out.
+  const { signal, deadline, dispose } = createRequestDeadline(req)
+
+  // Tracked for error hooks; filled in as the request gets further.
+  let ctx: TCtx | undefined
+  let pathStr = ''
+  let procType: ProcedureType | undefined
 
   try {
     const url = new URL(req.url)
@@ -54,31 +148,195 @@ export async function fetchRequestHandler<TCtx>({
       throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Only GET and POST are supported' })
     }
 
-    const ctx = await createContext({ req })
+    const reqCtx = await createContext({ req })
+    ctx = reqCtx
     const path = parsePath(url, endpoint.length)
+    pathStr = path.join('.')
 
-    const { type, rawInput } =
-      req.method === 'POST' ? await parsePostEnvelope(req, bodyReader, contentType) : parseGetEnvelope(url)
+    const decoded = req.method === 'POST' ? await decodePostBody(req, registry, bodyReader, contentType) : undefined
+    const body = decoded?.body
+    const readInput = (rawInput: unknown) =>
+      transformer && usesTransformer(decoded?.format ?? 'json') ? deserializeInput(transformer, rawInput) : rawInput
 
-    if (type !== 'query' && type !== 'mutation') {
-      throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Missing or invalid type' })
-    }
+    if (isBatchRequest(url, path, body)) {
+      assertAcceptable()
+      const calls = req.method === 'POST' ? parsePostBatch(body) : parseGetBatch(url)
+      if (calls.length > maxBatchSize) {
+        throw createRPCError({
+          code: 'RPC_PAYLOAD_TOO_LARGE',
+          message: `Batch exceeds the maximum of ${maxBatchSize} calls`,
+        })
+      }
 
-    const proc = getProcedureAtPath(router, path)
-    if (!proc) {
-      throw createRPCError({ code: 'RPC_NOT_FOUND', message: 'Procedure not found' })
+      // Every call settles on its own, so one failure never rejects the whole batch.
+      const results = await Promise.all(
+        calls.map((call) =>
+          callProcedure(router, reqCtx, call, {
+            config,
+            req,
+            readInput,
+            format: responseFormat,
+            optOut,
+            signal,
+            deadline,
+          }),
+        ),
+      )
+      return await compress(
+        serializeResponse(results.map(writeResult), RPC_CODES.RPC_OK, resHeaders, responseFormat, registry),
+      )
     }
 
-    if (proc._type !== type) {
-      throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Procedure type mismatch' })
+    const { type, rawInput } = req.method === 'POST' ? parsePostEnvelope(body) : parseGetEnvelope(url)
+
+    const proc = await resolveProcedure(router, path, type)
+    procType = proc._type
+    optOut(proc)
+    const hooks = createErrorHooks(config, { path: pathStr, type: proc._type, ctx: reqCtx, req })
+    if (proc._type === 'subscription') {
+      return await handleSubscription(proc, reqCtx, readInput(rawInput), req, url, {
+        heartbeatMs: sse?.heartbeatMs,
+        headers: resHeaders,
+        send,
+        hooks,
+        transformer,
+        format: responseFormat,
+        codes: config.codes,
+      })
     }
 
-    const data = await proc._call({ ctx, rawInput })
-    return serializeResponse(data, RPC_CODES[data.code as never], resHeaders, responseFormat)
+    // Checked before running the procedure, so a mutation never runs for a response nobody can read.
+    assertAcceptable()
+    const data = await proc._call({
+      ctx: reqCtx,
+      rawInput: readInput(rawInput),
+      signal,
+      deadline,
+      onError: hooks.report,
+      format: responseFormat,
+    })
+    return await send(hooks.format(data), getResultStatus(data, proc._errors, config.codes))
+  } catch (e: unknown) {
+    const hooks = createErrorHooks(config, { path: pathStr, type: procType, ctx, req })
+    const status = rpcToErr(e, config.codes)[1]
+    return send(hooks.toResult(e), status)
+  } finally {
+    dispose()
+  }
+}
+
+/** A single call inside a batch envelope. */
+export type BatchCall = { path: string[]; type: unknown; rawInput: unknown }
+
+/** Resolve a procedure and check it matches the requested type. Throws on routing errors. */
+export async function resolveProcedure(router: RPCRouter<any>, path: string[], type: unknown): Promise<AnyProc> {
+  if (type !== 'query' && type !== 'mutation' && type !== 'subscription') {
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Missing or invalid type' })
+  }
+
+  const proc = await resolveProcedureAtPath(router, path)
+  if (!proc) {
+    throw createRPCError({ code: 'RPC_NOT_FOUND', message: 'Procedure not found' })
+  }
+
+  if (proc._type !== type) {
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Procedure type mismatch' })
+  }
+
+  return proc
+}
+
+/** Run one batched call, converting routing errors into a per-call error result. */
+async function callProcedure<TCtx>(
+  router: RPCRouter<any>,
+  ctx: TCtx,
+  { path, type, rawInput }: BatchCall,
+  {
+    config,
+    req,
+    readInput,
+    format,
+    optOut,
+    signal,
+    deadline,
+  }: {
+    config: RPCConfig<TCtx>
+    req: Request
+    readInput: (rawInput: unknown) => unknown
+    format: ResponseFormat
+    /** Called with every resolved procedure, so one opt-out leaves the whole batch uncompressed. */
+    optOut: (proc: AnyProc) => void
+    signal: AbortSignal
+    deadline: number | undefined
+  },
+): Promise<RPCResType<unknown>> {
+  const site = { path: path.join('.'), type: undefined as ProcedureType | undefined, ctx, req }
+  try {
+    const proc = await resolveProcedure(router, path, type)
+    site.type = proc._type
+    optOut(proc)
+    if (proc._type === 'subscription') {
+      throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Subscriptions cannot be batched' })
+    }
+    const hooks = createErrorHooks(config, site)
+    return hooks.format(
+      await proc._call({ ctx, rawInput: readInput(rawInput), signal, deadline, onError: hooks.report, format }),
+    )
   } catch (e: unknown) {
-    const [err, status] = rpcToErr(e)
-    return serializeResponse(err, status, resHeaders, responseFormat)
+    return createErrorHooks(config, site).toResult(e)
+  }
+}
+
+/**
+ * Start a subscription and stream it as Server-Sent Events.
+ * Errors raised before the first event (middleware, input validation) are sent as a normal response.
+ */
+async function handleSubscription<TCtx>(
+  proc: AnyProc,
+  ctx: TCtx,
+  rawInput: unknown,
+  req: Request,
+  url: URL,
+  opts: {
+    heartbeatMs: number | undefined
+    headers: Record<string, string>
+    /** Serialize a non-streamed result in the negotiated format. */
+    send: (res: RPCResType<unknown>, status: number) => Response | Promise<Response>
+    hooks: ErrorHooks
+    transformer: DataTransformer | undefined
+    format: ResponseFormat
+    codes: RPCCodeTable | undefined
+  },
+): Promise<Response> {
+  // Links the stream lifetime to the client connection; the SSE writer aborts it on close.
+  const controller = new AbortController()
+  const onAbort = () => controller.abort(req.signal.reason)
+  if (req.signal.aborted) onAbort()
+  else req.signal.addEventListener('abort', onAbort, { once: true })
+  controller.signal.addEventListener('abort', () => req.signal.removeEventListener('abort', onAbort), { once: true })
+
+  const lastEventId = req.headers.get('last-event-id') ?? url.searchParams.get('lastEventId') ?? undefined
+  const res = await proc._call({
+    ctx,
+    rawInput,
+    signal: controller.signal,
+    lastEventId,
+    onError: opts.hooks.report,
+    format: opts.format,
+  })
+
+  if (!res.ok) {
+    controller.abort()
+    return opts.send(opts.hooks.format(res), getResultStatus(res, proc._errors, opts.codes))
   }
+
+  return createSSEResponse(res.data as AsyncIterable<SubscriptionEvent<unknown>>, {
+    controller,
+    headers: opts.headers,
+    errorResult: opts.hooks.toResult,
+    ...(opts.transformer ? { transformer: opts.transformer } : {}),
+    ...(opts.heartbeatMs !== undefined ? { heartbeatMs: opts.heartbeatMs } : {}),
+  })
 }
 
 /** Parse the RPC procedure path from the URL and endpoint. */
@@ -115,28 +373,87 @@ function parseGetEnvelope(url: URL): { type: unknown; rawInput: unknown } {
   return { type, rawInput: input }
 }
 
-/** Parse the request body into a request envelope for POST requests. */
-/** Parse the request body into a request envelope for POST requests. */
-async function parsePostEnvelope(
+/** Decode the POST body into a plain value using the request content type. */
+async function decodePostBody(
   req: Request,
+  codecs: readonly Codec[],
   bodyReader?: BodyReader,
   contentType?: string | null,
-): Promise<{ type: unknown; rawInput: unknown }> {
-  let decoded: { body: unknown; format: 'json' | 'cbor' }
+): Promise<{ body: unknown; format: ResponseFormat }> {
+  const type = contentType ?? req.headers.get('content-type')
+  // ex: "Invalid CBOR body"
+  const message = `Invalid ${requestCodec(type, codecs).format.toUpperCase()} body`
+  let decoded: { body: unknown; format: ResponseFormat }
   try {
-    decoded = await decodeRequestBody(contentType ?? req.headers.get('content-type'), bodyReader ?? req)
+    decoded = await decodeRequestBody(type, bodyReader ?? req, codecs)
   } catch (error) {
-    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Invalid CBOR body', cause: error })
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message, cause: error })
   }
 
   if (!isRecord(decoded.body)) {
-    throw createRPCError({
-      code: 'RPC_BAD_REQUEST',
-      message: decoded.format === 'cbor' ? 'Invalid CBOR body' : 'Invalid JSON body',
-    })
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message })
+  }
+
+  return decoded
+}
+
+/** Read the request envelope out of a decoded POST body. */
+function parsePostEnvelope(body: unknown): { type: unknown; rawInput: unknown } {
+  const rec = body as Record<string, unknown>
+  return { type: rec.type, rawInput: rec.input }
+}
+
+/**
+ * Batch requests either carry `?batch=1` or POST an array to the bare endpoint.
+ * A batch names each procedure in its items, so the URL must not carry a path.
+ */
+function isBatchRequest(url: URL, path: string[], body: unknown): boolean {
+  const flagged = url.searchParams.get('batch') === '1'
+  if (!flagged && !Array.isArray(body)) return false
+
+  if (path.length) {
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Batch requests must target the endpoint root' })
+  }
+  return true
+}
+
+/** Parse a POST batch body of `[{ path, type, input }]` items. */
+function parsePostBatch(body: unknown): BatchCall[] {
+  if (!Array.isArray(body)) {
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Batch body must be an array' })
+  }
+  return body.map((item) => toBatchCall(item))
+}
+
+/** Parse a GET batch from `?batch=1&input=[{ path, input }]`. Every item is a query; GET never runs side effects. */
+function parseGetBatch(url: URL): BatchCall[] {
+  const inputParam = url.searchParams.get('input')
+  let items: unknown
+  try {
+    items = inputParam == null ? [] : JSON.parse(inputParam)
+  } catch (error) {
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Invalid batch input', cause: error })
   }
 
-  return { type: decoded.body.type, rawInput: decoded.body.input }
+  if (!Array.isArray(items)) {
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Batch input must be an array' })
+  }
+  if (items.some((item) => isRecord(item) && item.type !== undefined && item.type !== 'query')) {
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'GET batches may only contain queries' })
+  }
+  return items.map((item) => toBatchCall(item, 'query'))
+}
+
+/** Normalize a raw batch item. Malformed items still produce a call that fails on its own. */
+function toBatchCall(item: unknown, defaultType?: 'query'): BatchCall {
+  if (!isRecord(item) || typeof item.path !== 'string') {
+    return { path: [], type: undefined, rawInput: undefined }
+  }
+  return {
+    path: item.path ? item.path.split('.') : [],
+    type: item.type ?? defaultType,
+    rawInput: item.input,
+  }
 }
 
 /** Narrow unknown values to plain object records. */
@@ -1,8 +1,10 @@
-import type { MiddlewareHandler } from 'hono'
+import type { Context, MiddlewareHandler } from 'hono'
 import { routePath } from 'hono/route'
+import type { WSContext, WSEvents } from 'hono/ws'
 import type { RPCRouter } from '../core/router'
-import type { CreateContextOpts } from './fetch'
+import type { CreateContextOpts, FetchRequestHandlerOptions } from './fetch'
 import { fetchRequestHandler } from './fetch'
+import { createWSConnection, type WSConnection, type WSHandlerOptions } from './ws'
 
 /** Options for wiring Duck RPC into a Hono app. */
 export interface RPCServerOptions<TCtx> {
@@ -18,6 +20,24 @@ export interface RPCServerOptions<TCtx> {
   extendContext?: (base: TCtx, honoCtx: any) => TCtx | Promise<TCtx>
   /** Custom headers for RPC responses (optional). */
   headers?: Record<string, string>
+  /** Maximum number of calls accepted in one batch, default: 50. */
+  maxBatchSize?: number
+  /** Server-Sent Events options for subscription procedures. */
+  sse?: FetchRequestHandlerOptions<TCtx>['sse']
+  /** Called for every thrown error; overrides the router's `onError`. */
+  onError?: FetchRequestHandlerOptions<TCtx>['onError']
+  /** Reshape error payloads; overrides the router's `errorFormatter`. */
+  errorFormatter?: FetchRequestHandlerOptions<TCtx>['errorFormatter']
+  /** Error exposure mode; overrides the router's `errorMode`. */
+  errorMode?: FetchRequestHandlerOptions<TCtx>['errorMode']
+  /** Body format for error responses, default: `'rpc'`. */
+  errorFormat?: FetchRequestHandlerOptions<TCtx>['errorFormat']
+  /** Transformer for inputs and result data in non-CBOR bodies; clients must use the same one. */
+  transformer?: FetchRequestHandlerOptions<TCtx>['transformer']
+  /** Extra body codecs, checked before the built-in JSON, CBOR and MessagePack ones. */
+  codecs?: FetchRequestHandlerOptions<TCtx>['codecs']
+  /** Compress responses negotiated through `Accept-Encoding`, `true` for the defaults. */
+  compression?: FetchRequestHandlerOptions<TCtx>['compression']
 }
 
 /** Create a Hono middleware that handles Duck RPC requests. */
@@ -48,6 +68,15 @@ export function rpcServer<TCtx>(opts: RPCServerOptions<TCtx>): MiddlewareHandler
             contentType: c.req.header('content-type'),
           }),
       ...(opts.headers ? { headers: opts.headers } : {}),
+      ...(opts.maxBatchSize ? { maxBatchSize: opts.maxBatchSize } : {}),
+      ...(opts.sse ? { sse: opts.sse } : {}),
+      ...(opts.onError ? { onError: opts.onError } : {}),
+      ...(opts.errorFormatter ? { errorFormatter: opts.errorFormatter } : {}),
+      ...(opts.errorMode ? { errorMode: opts.errorMode } : {}),
+      ...(opts.errorFormat ? { errorFormat: opts.errorFormat } : {}),
+      ...(opts.transformer ? { transformer: opts.transformer } : {}),
+      ...(opts.codecs ? { codecs: opts.codecs } : {}),
+      ...(opts.compression !== undefined ? { compression: opts.compression } : {}),
     })
 
     // hono typing issue: c.body accepts ReadableStream | null but types may not match
@@ -56,6 +85,38 @@ export function rpcServer<TCtx>(opts: RPCServerOptions<TCtx>): MiddlewareHandler
   }
 }
 
+/**
+ * Create WebSocket event handlers for Hono's `upgradeWebSocket`.
+ * `createContext` runs once per connection with the upgrade request.
+ */
+export function rpcWebSocket<TCtx>(opts: WSHandlerOptions<TCtx>): (c: Context) => WSEvents {
+  return (c) => {
+    let conn: WSConnection | undefined
+
+    const connect = (ws: WSContext) => {
+      conn ??= createWSConnection({
+        ...opts,
+        req: c.req.raw,
+        send: (data) => ws.send(data as string | Uint8Array<ArrayBuffer>),
+      })
+      return conn
+    }
+
+    return {
+      onOpen: (_evt, ws) => {
+        connect(ws)
+      },
+      onMessage: async (evt, ws) => {
+        const data = evt.data instanceof Blob ? await evt.data.arrayBuffer() : (evt.data as string | ArrayBuffer)
+        await connect(ws).receive(data)
+      },
+      onClose: () => {
+        conn?.close()
+      },
+    }
+  }
+}
+
 /** Resolve the effective endpoint for this request. */
 function resolveEndpoint(c: any, opts: RPCServerOptions<any>): string {
   if (opts.endpoint) return opts.endpoint
@@ -1,3 +1,7 @@
+export * from './deadline'
 export * from './fetch'
 export * from './hono'
+export * from './problem'
 export * from './request-metadata'
+export * from './sse'
+export * from './ws'
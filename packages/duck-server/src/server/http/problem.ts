@@ -0,0 +1,82 @@
+import type { RPCErrorShape } from '../core/config'
+import type { StandardSchemaV1 } from '../core/schema'
+import { matchAccept, withContentType } from '../serialization/codec'
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json'
+
+/**
+ * Error body format for `fetchRequestHandler`.
+ * - `rpc`: the `{ ok, code, error }` envelope (default).
+ * - `problem`: RFC 9457 `application/problem+json` for every error response.
+ * - `negotiate`: problem details only when the request `Accept` names `application/problem+json` with a q-value
+ *   above zero and no lower than `application/json`'s.
+ */
+export type ErrorFormat = 'rpc' | 'problem' | 'negotiate'
+
+/** RFC 9457 problem details, with the RPC code and validation issues as extension members. */
+export type ProblemDetails = {
+  /** URI identifying the problem type, ex: `urn:rpc:error:RPC_NOT_FOUND`. */
+  type: string
+  /** Short summary of the problem type, ex: `Not Found`. */
+  title: string
+  status: number
+  /** The error message. */
+  detail: string
+  /** Request path that failed. */
+  instance: string
+  code: string
+  /** Validation issues, present only when there are some. */
+  issues?: ReadonlyArray<StandardSchemaV1.Issue>
+  [extension: string]: unknown
+}
+
+/** Whether an error response for `req` should use problem details. */
+export function wantsProblemDetails(req: Request, format: ErrorFormat): boolean {
+  if (format !== 'negotiate') return format === 'problem'
+  const accept = req.headers.get('accept')
+  if (!accept) return false
+
+  // Wildcards accept anything, so only a range naming problem+json itself opts in.
+  const problem = matchAccept(accept, PROBLEM_CONTENT_TYPE)
+  if (!problem || problem.specificity < 2 || problem.q <= 0) return false
+  return problem.q >= (matchAccept(accept, 'application/json')?.q ?? 0)
+}
+
+/** Map an error payload onto problem details. Extra fields (ex: `errorId`, formatter additions) become extensions. */
+export function toProblemDetails(shape: RPCErrorShape, status: number, instance: string): ProblemDetails {
+  const { ok: _ok, code, error, ...extra } = shape
+  const { code: _code, message, issues, ...errorExtra } = error
+  return {
+    type: `urn:rpc:error:${code}`,
+    title: codeToTitle(code),
+    status,
+    detail: message,
+    instance,
+    code,
+    ...(issues?.length ? { issues } : {}),
+    ...errorExtra,
+    ...extra,
+  }
+}
+
+/** Serialize an error payload as an `application/problem+json` response. */
+export function serializeProblem(
+  shape: RPCErrorShape,
+  status: number,
+  headers: Record<string, string>,
+  instance: string,
+): Response {
+  return new Response(JSON.stringify(toProblemDetails(shape, status, instance)), {
+    status,
+    headers: withContentType(headers, PROBLEM_CONTENT_TYPE),
+  })
+}
+
+/** `RPC_NOT_FOUND` -> `Not Found`. */
+function codeToTitle(code: string): string {
+  return code
+    .replace(/^RPC_/, '')
+    .split('_')
+    .map((word) => word.charAt(0) + word.slice(1).toLowerCase())
+    .join(' ')
+}
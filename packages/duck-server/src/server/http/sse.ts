@@ -0,0 +1,111 @@
+import { type RPCResType, rpcOk, rpcToErr } from '../core/response'
+import type { SubscriptionEvent } from '../core/subscription'
+import { type DataTransformer, transformResult } from '../serialization/transformer'
+
+/**
+ * Server-Sent Events writer for subscription procedures.
+ *
+ * Every `data` and `error` event carries an `RPCResType`-shaped JSON frame, so clients
+ * decode stream events exactly like one-shot responses.
+ */
+
+export const SSE_CONTENT_TYPE = 'text/event-stream'
+
+/** Event names written to the stream. */
+export type SSEEventName = 'data' | 'error' | 'heartbeat' | 'complete'
+
+/** Options for streaming a subscription as an SSE response. */
+export type SSEResponseOptions = {
+  /** Interval between heartbeat events in ms, `0` disables them. Default: 15000. */
+  heartbeatMs?: number
+  /** Aborted to stop the stream, and aborted by the stream when the client goes away. */
+  controller: AbortController
+  /** Extra response headers. */
+  headers?: Record<string, string>
+  /** Turn an error thrown mid-stream into the `error` event payload, default: `rpcToErr`. */
+  errorResult?: (e: unknown) => RPCResType<never>
+  /** Transformer applied to event data, matching the client's. */
+  transformer?: DataTransformer
+}
+
+/** Format a single SSE message. Multi-line data is split into several `data:` fields. */
+export function formatSSEMessage(msg: { event: SSEEventName; data: string; id?: string | undefined }): string {
+  let out = ''
+  if (msg.id !== undefined) out += `id: ${msg.id}\n`
+  out += `event: ${msg.event}\n`
+  for (const line of msg.data.split('\n')) out += `data: ${line}\n`
+  return `${out}\n`
+}
+
+/** Stream subscription events as a `text/event-stream` response. */
+export function createSSEResponse(
+  events: AsyncIterable<SubscriptionEvent<unknown>>,
+  { heartbeatMs = 15_000, controller, headers, errorResult = (e) => rpcToErr(e)[0], transformer }: SSEResponseOptions,
+): Response {
+  const frame = (res: RPCResType<unknown>) =>
+    JSON.stringify(transformer ? transformResult(res, transformer.serialize) : res)
+  const encoder = new TextEncoder()
+  const iterator = events[Symbol.asyncIterator]()
+  let heartbeat: ReturnType<typeof setInterval> | undefined
+  let closed = false
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(sink) {
+      const write = (msg: Parameters<typeof formatSSEMessage>[0]) => {
+        if (!closed) sink.enqueue(encoder.encode(formatSSEMessage(msg)))
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        clearInterval(heartbeat)
+        controller.signal.removeEventListener('abort', close)
+        // Abort first so resolvers waiting on external sources can settle, then release the iterator.
+        controller.abort()
+        void iterator.return?.()
+        try {
+          sink.close()
+        } catch {
+          // The stream was already cancelled by the reader.
+        }
+      }
+
+      if (heartbeatMs > 0) {
+        heartbeat = setInterval(() => write({ event: 'heartbeat', data: '{}' }), heartbeatMs)
+      }
+      controller.signal.addEventListener('abort', close, { once: true })
+
+      const pump = async () => {
+        try {
+          while (!closed) {
+            const next = await iterator.next()
+            if (next.done) {
+              write({ event: 'complete', data: '{}' })
+              break
+            }
+            write({ event: 'data', id: next.value.id, data: frame(rpcOk(next.value.data, 'RPC_OK')) })
+          }
+        } catch (e: unknown) {
+          write({ event: 'error', data: frame(errorResult(e)) })
+        } finally {
+          close()
+        }
+      }
+
+      void pump()
+    },
+    cancel() {
+      controller.abort()
+    },
+  })
+
+  return new Response(stream, {
+    status: 200,
+    headers: {
+      ...headers,
+      'content-type': SSE_CONTENT_TYPE,
+      'cache-control': 'no-cache',
+      connection: 'keep-alive',
+    },
+  })
+}
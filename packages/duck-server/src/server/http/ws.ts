@@ -0,0 +1,226 @@
+import { createErrorHooks, mergeRPCConfig, type RPCConfig } from '../core/config'
+import { createRPCError } from '../core/error'
+import type { AnyProc, ProcedureType } from '../core/procedure'
+import { type RPCResType, rpcOk } from '../core/response'
+import type { RPCRouter } from '../core/router'
+import type { SubscriptionEvent } from '../core/subscription'
+import { type Codec, decodeMessage, encodeMessage, type ResponseFormat, resolveCodecs } from '../serialization/codec'
+import { type DataTransformer, deserializeInput, transformResult, usesTransformer } from '../serialization/transformer'
+import { createDeadline, toTimeoutMs } from './deadline'
+import { type CreateContextOpts, resolveProcedure } from './fetch'
+
+/**
+ * WebSocket transport that multiplexes queries, mutations and subscriptions over one socket.
+ *
+ * Every client message carries an `id`; every server message echoes it. Text frames are JSON,
+ * binary frames are CBOR (or `binaryCodec`), and replies use the format of the message they answer.
+ */
+
+/** Message id chosen by the client. */
+export type WSMessageId = string | number
+
+/** Client to server messages. */
+export type WSClientMessage =
+  | {
+      id: WSMessageId
+      method: 'query' | 'mutation' | 'subscription'
+      path: string
+      input?: unknown
+      /** Per-message headers, handed to `createMessageContext`. */
+      headers?: Record<string, string>
+      /** Resume point for subscriptions. */
+      lastEventId?: string
+      /** Budget left for a query or mutation in ms, like the `x-rpc-timeout` header. */
+      timeoutMs?: number
+    }
+  | { id: WSMessageId; method: 'subscription.stop' }
+
+/** Server to client messages. */
+export type WSServerMessage =
+  /** Final result of a query or mutation, or a subscription that failed to start. */
+  | { id: WSMessageId; type: 'result'; result: RPCResType<unknown> }
+  /** A subscription value. */
+  | { id: WSMessageId; type: 'data'; eventId?: string; result: RPCResType<unknown> }
+  /** A subscription that ended with an error. */
+  | { id: WSMessageId; type: 'error'; result: RPCResType<never> }
+  /** A subscription that ended normally or was stopped. */
+  | { id: WSMessageId; type: 'complete' }
+
+/** Options shared by every WebSocket adapter. Error handling options override the router's. */
+export type WSHandlerOptions<TCtx> = RPCConfig<TCtx> & {
+  router: RPCRouter<any>
+  /** Create the context once per connection. */
+  createContext: (opts: CreateContextOpts) => Promise<TCtx> | TCtx
+  /** Optionally derive a per-message context from the connection context. */
+  createMessageContext?: (opts: {
+    ctx: TCtx
+    message: Extract<WSClientMessage, { path: string }>
+  }) => Promise<TCtx> | TCtx
+  /** Transformer for inputs and result data in non-CBOR frames; clients must use the same one. */
+  transformer?: DataTransformer
+  /** Codec for binary frames, default: CBOR. Clients sending binary frames must use the same one. */
+  binaryCodec?: Codec
+}
+
+/** A single open RPC WebSocket connection. */
+export type WSConnection = {
+  /** Handle an incoming frame. */
+  receive: (data: string | ArrayBuffer | ArrayBufferView) => Promise<void>
+  /** Stop all subscriptions and abort running calls; call when the socket closes. */
+  close: () => void
+}
+
+/** Create a runtime-agnostic connection handler around a `send` function. */
+export function createWSConnection<TCtx>(
+  opts: WSHandlerOptions<TCtx> & {
+    /** The upgrade request, passed to `createContext`. */
+    req: Request
+    /** Write a frame to the socket. */
+    send: (data: string | Uint8Array) => void
+  },
+): WSConnection {
+  const subscriptions = new Map<WSMessageId, AbortController>()
+  // Queries and mutations still running, aborted when the connection closes.
+  const calls = new Set<AbortController>()
+  const config = mergeRPCConfig<TCtx>(opts.router._def.config, opts)
+  const codecs = resolveCodecs(opts.binaryCodec ? [opts.binaryCodec] : undefined)
+  let ctxPromise: Promise<TCtx> | undefined
+  let closed = false
+
+  const reply = (msg: WSServerMessage, format: ResponseFormat) => {
+    if (closed) return
+    const { transformer } = opts
+    const out =
+      transformer && usesTransformer(format) && 'result' in msg
+        ? ({ ...msg, result: transformResult(msg.result, transformer.serialize) } as WSServerMessage)
+        : msg
+    opts.send(encodeMessage(out, format, codecs))
+  }
+
+  const readInput = (input: unknown, format: ResponseFormat) =>
+    opts.transformer && usesTransformer(format) ? deserializeInput(opts.transformer, input) : input
+
+  const contextFor = async (message: Extract<WSClientMessage, { path: string }>): Promise<TCtx> => {
+    ctxPromise ??= Promise.resolve(opts.createContext({ req: opts.req }))
+    const ctx = await ctxPromise
+    return opts.createMessageContext ? opts.createMessageContext({ ctx, message }) : ctx
+  }
+
+  const subscribe = async (
+    message: Extract<WSClientMessage, { path: string }>,
+    ctx: TCtx,
+    format: ResponseFormat,
+    controller: AbortController,
+    proc: AnyProc,
+  ) => {
+    const hooks = createErrorHooks(config, { path: message.path, type: proc._type, ctx, req: opts.req })
+    const res = await proc._call({
+      ctx,
+      rawInput: readInput(message.input, format),
+      signal: controller.signal,
+      lastEventId: message.lastEventId,
+      onError: hooks.report,
+      format,
+    })
+    if (!res.ok) {
+      subscriptions.delete(message.id)
+      reply({ id: message.id, type: 'result', result: hooks.format(res) }, format)
+      return
+    }
+
+    const events = res.data as AsyncIterable<SubscriptionEvent<unknown>>
+    try {
+      for await (const event of events) {
+        if (controller.signal.aborted) break
+        const data: WSServerMessage = { id: message.id, type: 'data', result: rpcOk(event.data, 'RPC_OK') }
+        if (event.id !== undefined) data.eventId = event.id
+        reply(data, format)
+      }
+      reply({ id: message.id, type: 'complete' }, format)
+    } catch (e: unknown) {
+      reply({ id: message.id, type: 'error', result: hooks.toResult(e) }, format)
+    } finally {
+      subscriptions.delete(message.id)
+    }
+  }
+
+  const receive = async (data: string | ArrayBuffer | ArrayBufferView) => {
+    let decoded: { body: unknown; format: ResponseFormat }
+    try {
+      decoded = decodeMessage(data, opts.binaryCodec)
+    } catch {
+      // Without a readable id there is nobody to answer; drop the frame.
+      return
+    }
+
+    const message = decoded.body as WSClientMessage
+    if (!message || typeof message !== 'object' || message.id === undefined) return
+
+    if (message.method === 'subscription.stop') {
+      subscriptions.get(message.id)?.abort()
+      return
+    }
+
+    // Tracked for error hooks; filled in as the message gets further.
+    let ctx: TCtx | undefined
+    let type: ProcedureType | undefined
+    const controller = new AbortController()
+
+    try {
+      if (typeof message.path !== 'string') {
+        throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Missing procedure path' })
+      }
+      if (message.method === 'subscription' && subscriptions.has(message.id)) {
+        throw createRPCError({ code: 'RPC_CONFLICT', message: 'Duplicate subscription id' })
+      }
+      // Registered before any await, so a stop sent right behind the subscribe still finds it.
+      if (message.method === 'subscription') subscriptions.set(message.id, controller)
+      else calls.add(controller)
+
+      const msgCtx = await contextFor(message)
+      ctx = msgCtx
+
+      const proc = await resolveProcedure(opts.router, message.path ? message.path.split('.') : [], message.method)
+      type = proc._type
+      if (proc._type === 'subscription') {
+        await subscribe(message, msgCtx, decoded.format, controller, proc)
+        return
+      }
+
+      const hooks = createErrorHooks(config, { path: message.path, type, ctx: msgCtx, req: opts.req })
+      const rawInput = readInput(message.input, decoded.format)
+      const { signal, deadline, dispose } = createDeadline(toTimeoutMs(message.timeoutMs), controller.signal)
+      try {
+        const result = await proc._call({
+          ctx: msgCtx,
+          rawInput,
+          signal,
+          deadline,
+          onError: hooks.report,
+          format: decoded.format,
+        })
+        reply({ id: message.id, type: 'result', result: hooks.format(result) }, decoded.format)
+      } finally {
+        dispose()
+      }
+    } catch (e: unknown) {
+      // Another message may own this id, ex: a running subscription a duplicate id collided with.
+      if (subscriptions.get(message.id) === controller) subscriptions.delete(message.id)
+      const path = typeof message.path === 'string' ? message.path : ''
+      const hooks = createErrorHooks(config, { path, type, ctx, req: opts.req })
+      reply({ id: message.id, type: 'result', result: hooks.toResult(e) }, decoded.format)
+    } finally {
+      calls.delete(controller)
+    }
+  }
+
+  const close = () => {
+    closed = true
+    for (const controller of subscriptions.values()) controller.abort()
+    subscriptions.clear()
+    for (const controller of calls) controller.abort()
+    calls.clear()
+  }
+
+  return { receive, close }
+}
@@ -0,0 +1,175 @@
+/**
+ * Tests for OpenAPI document generation.
+ *
+ * Covers:
+ * - Document metadata and servers
+ * - GET operations for queries, POST for mutations
+ * - Mutation request envelopes
+ * - Input and output schemas
+ * - Error responses from RPC codes
+ * - Subscriptions
+ * - Metadata hints
+ * - Lazy routers
+ * - Custom codes
+ */
+
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { RPC_CODES } from '../../core/codes'
+import { initRPC } from '../../core/init'
+import { createProcedure } from '../../core/procedure'
+import { RPCRes as R } from '../../core/response'
+import { createRouter, lazy } from '../../core/router'
+import { fetchRequestHandler } from '../../http/fetch'
+import { generateOpenAPI, type OpenAPIMeta } from '../generate'
+
+const router = createRouter({
+  health: createProcedure().query(async () => R.ok('ok', 'RPC_OK')),
+  user: createRouter({
+    get: createProcedure()
+      .input(z.object({ id: z.string() }))
+      .output(z.object({ id: z.string(), name: z.string() }))
+      .query(async ({ input }) => R.ok({ id: input.id, name: 'duck' }, 'RPC_OK')),
+    create: createProcedure()
+      .input(z.object({ name: z.string() }))
+      .mutation(async ({ input }) => R.ok({ name: input.name }, 'RPC_OK')),
+  }),
+  legacy: createProcedure<unknown, unknown, unknown, { openapi: OpenAPIMeta }>()
+    .meta({ openapi: { summary: 'Old endpoint', tags: ['misc'], deprecated: true } })
+    .query(async () => R.ok(null, 'RPC_OK')),
+  ticks: createProcedure().subscription(async () => (async function* () {})()),
+})
+
+describe('generateOpenAPI', () => {
+  it('should emit document metadata', async () => {
+    const doc = await generateOpenAPI(router, {
+      title: 'Duck API',
+      version: '1.0.0',
+      servers: [{ url: 'https://api.example.com' }],
+    })
+
+    expect(doc.openapi).toBe('3.1.0')
+    expect(doc.info).toEqual({ title: 'Duck API', version: '1.0.0' })
+    expect(doc.servers).toEqual([{ url: 'https://api.example.com' }])
+    expect(Object.keys(doc.paths)).toEqual([
+      '/rpc/health',
+      '/rpc/legacy',
+      '/rpc/ticks',
+      '/rpc/user.create',
+      '/rpc/user.get',
+    ])
+  })
+
+  it('should document queries as GET with a JSON input parameter', async () => {
+    const doc = await generateOpenAPI(router, { title: 'Duck API', version: '1.0.0' })
+    const op = doc.paths['/rpc/user.get']?.get
+
+    expect(op?.operationId).toBe('user.get')
+    expect(op?.tags).toEqual(['user'])
+    expect(op?.parameters).toEqual([
+      {
+        name: 'input',
+        in: 'query',
+        required: true,
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { id: { type: 'string' } },
+              required: ['id'],
+            },
+          },
+        },
+      },
+    ])
+
+    const schema = (op?.responses['200'] as any).content['application/json'].schema
+    expect(schema.properties.ok).toEqual({ const: true })
+    expect(schema.properties.data.required).toEqual(['id', 'name'])
+  })
+
+  it('should document mutations as POST with the request envelope', async () => {
+    const doc = await generateOpenAPI(router, { title: 'Duck API', version: '1.0.0', endpoint: '/api/rpc/' })
+    const item = doc.paths['/api/rpc/user.create']
+    const schema = (item?.post?.requestBody as any).content['application/json'].schema
+
+    expect(item?.get).toBeUndefined()
+    expect(schema.required).toEqual(['type', 'input'])
+    expect(schema.properties.type).toEqual({ const: 'mutation' })
+    expect(schema.properties.input.required).toEqual(['name'])
+  })
+
+  it('should document request bodies the handler accepts', async () => {
+    const doc = await generateOpenAPI(router, { title: 'Duck API', version: '1.0.0' })
+    const schema = (doc.paths['/rpc/user.create']?.post?.requestBody as any).content['application/json'].schema
+    const body = { type: schema.properties.type.const, input: { name: 'Ada' } }
+
+    const res = await fetchRequestHandler({
+      router,
+      createContext: () => ({}),
+      req: new Request('http://localhost/rpc/user.create', { method: 'POST', body: JSON.stringify(body) }),
+    })
+
+    expect(res.status).toBe(200)
+  })
+
+  it('should leave procedures without schemas unconstrained', async () => {
+    const doc = await generateOpenAPI(router, { title: 'Duck API', version: '1.0.0' })
+    const op = doc.paths['/rpc/health']?.get
+
+    expect(op?.parameters).toBeUndefined()
+    expect(op?.tags).toBeUndefined()
+    expect((op?.responses['200'] as any).content['application/json'].schema.properties.data).toEqual({})
+  })
+
+  it('should list every RPC error code under its status', async () => {
+    const doc = await generateOpenAPI(router, { title: 'Duck API', version: '1.0.0' })
+    const op = doc.paths['/rpc/health']?.get
+
+    expect(op?.responses['401']).toEqual({ $ref: '#/components/responses/Error401' })
+    const listed = Object.values(doc.components.responses).flatMap(
+      (res: any) => res.content['application/json'].schema.allOf[1].properties.code.enum,
+    )
+    const errorCodes = Object.entries(RPC_CODES)
+      .filter(([, status]) => status >= 400)
+      .map(([code]) => code)
+    expect(listed.sort()).toEqual(errorCodes.sort())
+  })
+
+  it('should document subscriptions as an event stream', async () => {
+    const doc = await generateOpenAPI(router, { title: 'Duck API', version: '1.0.0' })
+    const op = doc.paths['/rpc/ticks']?.get
+
+    expect(op?.parameters?.[0]).toMatchObject({ name: 'type', in: 'query', schema: { const: 'subscription' } })
+    expect(op?.responses['200']).toHaveProperty(['content', 'text/event-stream'])
+  })
+
+  it('should read operation hints from procedure meta', async () => {
+    const doc = await generateOpenAPI(router, { title: 'Duck API', version: '1.0.0' })
+    const op = doc.paths['/rpc/legacy']?.get
+
+    expect(op).toMatchObject({ summary: 'Old endpoint', tags: ['misc'], deprecated: true })
+  })
+
+  it('should include procedures of lazy routers', async () => {
+    const app = createRouter({
+      health: createProcedure().query(async () => R.ok('ok', 'RPC_OK')),
+      billing: lazy(async () => ({
+        billingRouter: createRouter({ charge: createProcedure().mutation(async () => R.ok(null, 'RPC_OK')) }),
+      })),
+    })
+
+    const doc = await generateOpenAPI(app, { title: 'Duck API', version: '1.0.0' })
+
+    expect(doc.paths['/rpc/billing.charge']?.post?.operationId).toBe('billing.charge')
+  })
+
+  it('should list the custom codes of the router', async () => {
+    const t = initRPC().codes({ RPC_QUOTA_EXCEEDED: 429 }).create()
+    const app = t.router({ health: t.procedure().query(async () => R.ok('ok', 'RPC_OK')) })
+
+    const doc = await generateOpenAPI(app, { title: 'Duck API', version: '1.0.0' })
+
+    expect(doc.components.responses.Error429?.description).toBe('RPC_TOO_MANY_REQUESTS, RPC_QUOTA_EXCEEDED')
+  })
+})
@@ -0,0 +1,237 @@
+import { listRPCCodes, type RPCCodeTable } from '../core/codes'
+import type { AnyProc } from '../core/procedure'
+import { type AnyRPCRouter, resolveRouterIndex } from '../core/router'
+import type { AnySchema, StandardJSONSchemaV1 } from '../core/schema'
+
+/**
+ * OpenAPI 3.1 document generation.
+ *
+ * Every procedure becomes one path under the RPC endpoint: queries are documented as GET with a JSON
+ * `input` query parameter, mutations as POST with a `{ type: 'mutation', input }` JSON body, and subscriptions as a
+ * GET event stream.
+ * Schemas come from the Standard JSON Schema converters of the procedure's input and output schemas.
+ */
+
+/** A JSON Schema object. */
+export type JSONSchema = Record<string, unknown>
+
+/** OpenAPI server entry. */
+export type OpenAPIServer = {
+  url: string
+  description?: string | undefined
+}
+
+/** Options for {@link generateOpenAPI}. */
+export type OpenAPIOptions = {
+  title: string
+  version: string
+  description?: string | undefined
+  servers?: OpenAPIServer[] | undefined
+  /** Mount path of the RPC handler, default: "/rpc". */
+  endpoint?: string | undefined
+}
+
+/** Documentation hints read from a procedure's `meta.openapi`. */
+export type OpenAPIMeta = {
+  summary?: string | undefined
+  description?: string | undefined
+  tags?: string[] | undefined
+  deprecated?: boolean | undefined
+}
+
+/** A single documented operation. */
+export type OpenAPIOperation = {
+  operationId: string
+  summary?: string
+  description?: string
+  tags?: string[]
+  deprecated?: boolean
+  parameters?: JSONSchema[]
+  requestBody?: JSONSchema
+  responses: Record<string, JSONSchema>
+}
+
+/** Generated OpenAPI 3.1 document. */
+export type OpenAPIDocument = {
+  openapi: '3.1.0'
+  info: { title: string; version: string; description?: string }
+  servers?: OpenAPIServer[]
+  paths: Record<string, { get?: OpenAPIOperation; post?: OpenAPIOperation }>
+  components: {
+    schemas: Record<string, JSONSchema>
+    responses: Record<string, JSONSchema>
+  }
+}
+
+const JSON_CONTENT_TYPE = 'application/json'
+
+/** Shared error envelope, mirrors the `ok: false` branch of `RPCResType`. */
+const ERROR_SCHEMA: JSONSchema = {
+  type: 'object',
+  required: ['ok', 'code', 'error'],
+  properties: {
+    ok: { const: false },
+    code: { type: 'string' },
+    error: {
+      type: 'object',
+      required: ['code', 'message'],
+      properties: {
+        code: { type: 'string' },
+        message: { type: 'string' },
+        issues: {
+          type: 'array',
+          items: {
+            type: 'object',
+            required: ['message'],
+            properties: { message: { type: 'string' }, path: { type: 'array', items: {} } },
+          },
+        },
+      },
+    },
+  },
+}
+
+/** Generate an OpenAPI 3.1 document describing every procedure in the router, importing lazy routers first. */
+export async function generateOpenAPI(router: AnyRPCRouter, opts: OpenAPIOptions): Promise<OpenAPIDocument> {
+  const endpoint = (opts.endpoint ?? '/rpc').replace(/\/+$/, '')
+  const errors = errorResponses(router._def.config?.codes)
+  const errorRefs: Record<string, JSONSchema> = {}
+  for (const status of Object.keys(errors)) errorRefs[status] = { $ref: `#/components/responses/Error${status}` }
+
+  const paths: OpenAPIDocument['paths'] = {}
+  const procs = [...(await resolveRouterIndex(router)).procs].sort(([a], [b]) => a.localeCompare(b))
+  for (const [path, proc] of procs) {
+    paths[`${endpoint}/${path}`] = describeProcedure(path, proc, errorRefs)
+  }
+
+  const components: OpenAPIDocument['components'] = { schemas: { RPCError: ERROR_SCHEMA }, responses: {} }
+  for (const [status, response] of Object.entries(errors)) components.responses[`Error${status}`] = response
+
+  const info: OpenAPIDocument['info'] = { title: opts.title, version: opts.version }
+  if (opts.description !== undefined) info.description = opts.description
+
+  return {
+    openapi: '3.1.0',
+    info,
+    ...(opts.servers?.length ? { servers: opts.servers } : {}),
+    paths,
+    components,
+  }
+}
+
+/** Build the path item for one procedure. */
+function describeProcedure(
+  path: string,
+  proc: AnyProc,
+  errorRefs: Record<string, JSONSchema>,
+): { get?: OpenAPIOperation; post?: OpenAPIOperation } {
+  const input = proc._inputSchema ? toJSONSchema(proc._inputSchema, 'input') : undefined
+  const output = proc._outputSchema ? toJSONSchema(proc._outputSchema, 'output') : {}
+  const segments = path.split('.')
+  const hints = (proc._meta as { openapi?: OpenAPIMeta } | undefined)?.openapi ?? {}
+  const tags = hints.tags ?? (segments.length > 1 ? [segments[0] as string] : undefined)
+
+  const operation: OpenAPIOperation = {
+    operationId: path,
+    ...(hints.summary !== undefined ? { summary: hints.summary } : {}),
+    ...(hints.description !== undefined ? { description: hints.description } : {}),
+    ...(tags ? { tags } : {}),
+    ...(hints.deprecated ? { deprecated: true } : {}),
+    responses: {},
+  }
+
+  if (proc._type === 'mutation') {
+    operation.requestBody = { required: true, content: { [JSON_CONTENT_TYPE]: { schema: mutationEnvelope(input) } } }
+    operation.responses = { '200': successResponse(output), ...errorRefs }
+    return { post: operation }
+  }
+
+  const parameters: JSONSchema[] = []
+  if (proc._type === 'subscription') {
+    parameters.push({ name: 'type', in: 'query', required: true, schema: { const: 'subscription' } })
+  }
+  if (input) {
+    // Complex inputs travel as a JSON-encoded `input` query parameter.
+    parameters.push({ name: 'input', in: 'query', required: true, content: { [JSON_CONTENT_TYPE]: { schema: input } } })
+  }
+  if (parameters.length) operation.parameters = parameters
+
+  operation.responses = {
+    '200': proc._type === 'subscription' ? streamResponse(output) : successResponse(output),
+    ...errorRefs,
+  }
+  return { get: operation }
+}
+
+/** POST body the handler expects, mirrors `parsePostEnvelope` in the fetch handler. */
+function mutationEnvelope(input: JSONSchema | undefined): JSONSchema {
+  return {
+    type: 'object',
+    required: input ? ['type', 'input'] : ['type'],
+    properties: { type: { const: 'mutation' }, ...(input ? { input } : {}) },
+  }
+}
+
+/** Success envelope, mirrors the `ok: true` branch of `RPCResType`. */
+function successResponse(data: JSONSchema): JSONSchema {
+  return {
+    description: 'Successful response',
+    content: {
+      [JSON_CONTENT_TYPE]: {
+        schema: {
+          type: 'object',
+          required: ['ok', 'code', 'data'],
+          properties: { ok: { const: true }, code: { type: 'string' }, data },
+        },
+      },
+    },
+  }
+}
+
+/** Server-Sent Events stream; each `data` event carries a success envelope around `data`. */
+function streamResponse(data: JSONSchema): JSONSchema {
+  return {
+    description: 'Server-Sent Events stream of `data`, `error`, `heartbeat` and `complete` events',
+    content: {
+      'text/event-stream': { schema: { type: 'string', description: 'data events', 'x-rpc-data': data } },
+    },
+  }
+}
+
+/** One response per error status, listing every RPC code that maps to it, custom `codes` included. */
+function errorResponses(codes: RPCCodeTable | undefined): Record<string, JSONSchema> {
+  const byStatus = new Map<number, string[]>()
+  for (const [code, status] of Object.entries(listRPCCodes(codes))) {
+    if (status < 400) continue
+    byStatus.set(status, [...(byStatus.get(status) ?? []), code])
+  }
+
+  const out: Record<string, JSONSchema> = {}
+  for (const [status, codes] of [...byStatus].sort(([a], [b]) => a - b)) {
+    out[String(status)] = {
+      description: codes.join(', '),
+      content: {
+        [JSON_CONTENT_TYPE]: {
+          schema: {
+            allOf: [{ $ref: '#/components/schemas/RPCError' }, { properties: { code: { enum: codes } } }],
+          },
+        },
+      },
+    }
+  }
+  return out
+}
+
+/** Convert a schema with the Standard JSON Schema converter, falling back to an unconstrained schema. */
+function toJSONSchema(schema: AnySchema, direction: 'input' | 'output'): JSONSchema {
+  const converter = (schema['~standard'] as Partial<StandardJSONSchemaV1.Props>).jsonSchema
+  if (!converter) return {}
+
+  try {
+    const { $schema: _, ...json } = converter[direction]({ target: 'draft-2020-12' })
+    return json
+  } catch {
+    // The library could not express this schema as JSON Schema.
+    return {}
+  }
+}
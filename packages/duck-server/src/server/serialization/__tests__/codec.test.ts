@@ -5,12 +5,29 @@
  * - JSON serialization/deserialization
  * - CBOR serialization/deserialization
  * - Format resolution
+ * - Accept negotiation with q-values and wildcards
  * - Encoder/decoder reuse
+ * - Native CBOR rich types
+ * - MessagePack
+ * - Codec registry
  */
 
 import { encode as cborEncode } from 'cbor-x'
 import { describe, expect, it } from 'vitest'
-import { CBOR_CONTENT_TYPE, decodeRequestBody, resolveResponseFormat, serializeResponse } from '../codec'
+import {
+  CBOR_CONTENT_TYPE,
+  type Codec,
+  cborCodec,
+  decodeRequestBody,
+  getCodec,
+  jsonCodec,
+  MSGPACK_CONTENT_TYPE,
+  msgpackCodec,
+  negotiateResponseFormat,
+  resolveCodecs,
+  resolveResponseFormat,
+  serializeResponse,
+} from '../codec'
 
 describe('serializeResponse', () => {
   it('should serialize JSON responses', () => {
@@ -151,3 +168,121 @@ describe('resolveResponseFormat', () => {
     expect(format).toBe('cbor')
   })
 })
+
+describe('negotiateResponseFormat', () => {
+  const negotiate = (accept: string, contentType?: string) =>
+    negotiateResponseFormat(
+      new Request('http://localhost/test', {
+        headers: contentType ? { accept, 'content-type': contentType } : { accept },
+      }),
+    )
+
+  it('should prefer the highest q-value', () => {
+    expect(negotiate('application/json;q=0.5, application/cbor')).toBe('cbor')
+    expect(negotiate('application/cbor;q=0.2, application/msgpack;q=0.9, application/json;q=0.1')).toBe('msgpack')
+  })
+
+  it('should break ties by specificity, then Accept order, then registry order', () => {
+    expect(negotiate('application/*, application/cbor')).toBe('cbor')
+    expect(negotiate('application/msgpack, application/cbor')).toBe('msgpack')
+    expect(negotiate('*/*')).toBe('json')
+  })
+
+  it('should let the most specific range decide, including q=0 exclusions', () => {
+    expect(negotiate('application/*;q=0.1, application/cbor;q=0.8')).toBe('cbor')
+    expect(negotiate('*/*, application/json;q=0')).toBe('cbor')
+    expect(negotiate('application/json;q=0, application/cbor;q=0, application/msgpack;q=0')).toBeUndefined()
+  })
+
+  it('should ignore the request content type once Accept is sent', () => {
+    expect(negotiate('application/json', CBOR_CONTENT_TYPE)).toBe('json')
+    expect(negotiate('text/html', CBOR_CONTENT_TYPE)).toBeUndefined()
+  })
+
+  it('should skip malformed ranges and q-values', () => {
+    expect(negotiate('application/cbor;q=2, application/msgpack;q=abc, json, application/json;q=0.3')).toBe('json')
+    expect(negotiate('application/CBOR; Q=0.9')).toBe('cbor')
+  })
+})
+
+describe('CBOR rich types', () => {
+  it('should carry Date, Map, Set, BigInt and undefined natively', async () => {
+    const body = { at: new Date(0), map: new Map([['a', 1]]), set: new Set([1]), big: 2n ** 70n, none: undefined }
+    const encoded = cborEncode(body)
+    const reader = {
+      json: async () => null,
+      arrayBuffer: async () => encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength),
+    }
+
+    const result = await decodeRequestBody(CBOR_CONTENT_TYPE, reader as never)
+
+    expect(result.body).toEqual(body)
+  })
+})
+
+describe('MessagePack', () => {
+  it('should decode request bodies and report the msgpack format', async () => {
+    const body = { type: 'query', input: { name: 'test', at: new Date(0) } }
+    const encoded = Uint8Array.from(msgpackCodec.encode(body) as Uint8Array)
+    const reader = { json: async () => null, arrayBuffer: async () => encoded.buffer }
+
+    expect(await decodeRequestBody(MSGPACK_CONTENT_TYPE, reader)).toEqual({ body, format: 'msgpack' })
+    expect(await decodeRequestBody('application/x-msgpack', reader)).toEqual({ body, format: 'msgpack' })
+  })
+
+  it('should negotiate like CBOR', () => {
+    const accepted = new Request('http://localhost/test', { headers: { accept: MSGPACK_CONTENT_TYPE } })
+    const sent = new Request('http://localhost/test', { headers: { 'content-type': MSGPACK_CONTENT_TYPE } })
+
+    expect(resolveResponseFormat(accepted)).toBe('msgpack')
+    expect(resolveResponseFormat(sent)).toBe('msgpack')
+  })
+
+  it('should encode objects as plain maps other implementations can read', async () => {
+    const res = serializeResponse({ ok: true, code: 'RPC_OK' }, 200, {}, 'msgpack')
+    const bytes = new Uint8Array(await res.arrayBuffer())
+
+    expect(res.headers.get('content-type')).toBe(MSGPACK_CONTENT_TYPE)
+    // map16 with 2 entries, then the fixstr "ok", rather than a msgpackr record extension
+    expect([...bytes.slice(0, 6)]).toEqual([0xde, 0x00, 0x02, 0xa2, 0x6f, 0x6b])
+  })
+})
+
+describe('codec registry', () => {
+  // Bytes of the reversed JSON text, so a mix-up with the JSON codec fails loudly.
+  const reversed: Codec = {
+    format: 'reversed',
+    contentType: 'application/x-reversed',
+    encode: (value) => new TextEncoder().encode([...JSON.stringify(value)].reverse().join('')),
+    decode: (data) => JSON.parse([...new TextDecoder().decode(data as Uint8Array)].reverse().join('')),
+    canDecode: (contentType) => contentType.startsWith('application/x-reversed'),
+  }
+  const codecs = resolveCodecs([reversed])
+
+  it('should put custom codecs first and let them replace built-ins', () => {
+    expect(codecs.map((c) => c.format)).toEqual(['reversed', 'json', 'cbor', 'msgpack'])
+    const json: Codec = { ...jsonCodec, contentType: 'application/vnd.api+json' }
+    expect(resolveCodecs([json])).toEqual([json, cborCodec, msgpackCodec])
+    expect(() => getCodec('yaml', codecs)).toThrow('No codec registered for format "yaml"')
+  })
+
+  it('should decode request bodies with the matching codec', async () => {
+    const encoded = reversed.encode({ type: 'query' }) as Uint8Array
+    const reader = { json: async () => null, arrayBuffer: async () => encoded.slice().buffer }
+
+    const result = await decodeRequestBody('application/x-reversed; v=1', reader, codecs)
+
+    expect(result).toEqual({ body: { type: 'query' }, format: 'reversed' })
+  })
+
+  it('should resolve and serialize responses with custom codecs', async () => {
+    const req = new Request('http://localhost/test', { headers: { accept: 'application/x-reversed' } })
+    const format = resolveResponseFormat(req, codecs)
+
+    const res = serializeResponse({ ok: true }, 200, {}, format, codecs)
+
+    expect(format).toBe('reversed')
+    expect(res.headers.get('content-type')).toBe('application/x-reversed')
+    expect(await res.text()).toBe('}eurt:"ko"{')
+  })
+})
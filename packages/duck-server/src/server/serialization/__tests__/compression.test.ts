@@ -0,0 +1,94 @@
+/**
+ * Tests for response compression.
+ *
+ * Covers:
+ * - Accept-Encoding negotiation
+ * - Size threshold
+ * - Round trips through CompressionStream
+ * - Custom compressors
+ * - Reading encoded and already decoded bodies
+ */
+
+import { describe, expect, it } from 'vitest'
+import { availableEncodings, compressResponse, negotiateEncoding, readResponseBody } from '../compression'
+
+const jsonResponse = (body: string, headers: Record<string, string> = {}) =>
+  new Response(body, { headers: { 'content-type': 'application/json', ...headers } })
+
+describe('negotiateEncoding', () => {
+  const available = ['br', 'gzip', 'deflate'] as const
+
+  it('should prefer the highest q-value, then the server order', () => {
+    expect(negotiateEncoding('gzip, deflate, br', available)).toBe('br')
+    expect(negotiateEncoding('br;q=0.5, gzip', available)).toBe('gzip')
+    expect(negotiateEncoding('x-gzip', available)).toBe('gzip')
+  })
+
+  it('should apply the wildcard to encodings not listed', () => {
+    expect(negotiateEncoding('br;q=0, *;q=0.1', available)).toBe('gzip')
+    expect(negotiateEncoding('*;q=0', available)).toBeUndefined()
+  })
+
+  it('should fall back to identity without a usable header', () => {
+    expect(negotiateEncoding(null, available)).toBeUndefined()
+    expect(negotiateEncoding('identity', available)).toBeUndefined()
+    expect(negotiateEncoding('gzip;q=abc', available)).toBeUndefined()
+  })
+})
+
+describe('availableEncodings', () => {
+  it('should keep encodings with a stream or a custom compressor', () => {
+    const encodings = availableEncodings({ encodings: ['zstd', 'gzip'], compressors: { zstd: (data) => data } })
+
+    expect(encodings).toEqual(['zstd', 'gzip'])
+  })
+})
+
+describe('compressResponse', () => {
+  const large = JSON.stringify({ rows: Array.from({ length: 200 }, (_, i) => ({ id: i, name: 'row' })) })
+
+  it('should gzip bodies over the threshold', async () => {
+    const res = await compressResponse(jsonResponse(large), 'gzip')
+    const bytes = new Uint8Array(await res.clone().arrayBuffer())
+
+    expect(res.headers.get('content-encoding')).toBe('gzip')
+    expect(res.headers.get('vary')).toBe('accept-encoding')
+    expect([bytes[0], bytes[1]]).toEqual([0x1f, 0x8b])
+    expect(bytes.byteLength).toBeLessThan(large.length)
+    expect(new TextDecoder().decode(await readResponseBody(res))).toBe(large)
+  })
+
+  it('should send small bodies as is', async () => {
+    const res = await compressResponse(jsonResponse('{"ok":true}'), 'gzip')
+
+    expect(res.headers.has('content-encoding')).toBe(false)
+    expect(res.headers.get('vary')).toBe('accept-encoding')
+    expect(await res.text()).toBe('{"ok":true}')
+  })
+
+  it('should honor a custom threshold and compressor', async () => {
+    const res = await compressResponse(jsonResponse('abc'), 'br', {
+      threshold: 0,
+      compressors: { br: (data) => data.slice().reverse() },
+    })
+
+    expect(res.headers.get('content-encoding')).toBe('br')
+    expect(await res.text()).toBe('cba')
+  })
+
+  it('should leave event streams and encoded responses alone', async () => {
+    const sse = new Response(large, { headers: { 'content-type': 'text/event-stream' } })
+    const encoded = jsonResponse(large, { 'content-encoding': 'gzip' })
+
+    expect(await compressResponse(sse, 'gzip')).toBe(sse)
+    expect(await compressResponse(encoded, 'gzip')).toBe(encoded)
+  })
+})
+
+describe('readResponseBody', () => {
+  it('should return bodies the fetch implementation already decoded', async () => {
+    const res = jsonResponse('{"ok":true}', { 'content-encoding': 'gzip' })
+
+    expect(new TextDecoder().decode(await readResponseBody(res))).toBe('{"ok":true}')
+  })
+})
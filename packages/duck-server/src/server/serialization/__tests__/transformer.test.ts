@@ -0,0 +1,89 @@
+/**
+ * Tests for data transformers.
+ *
+ * Covers:
+ * - Rich type round trips through JSON
+ * - Nested containers
+ * - Result and batch helpers
+ * - Malformed payloads
+ */
+
+import { describe, expect, it } from 'vitest'
+import { RPCRes as R } from '../../core/response'
+import { deserializeInput, deserializeResults, richTransformer } from '../transformer'
+
+const roundTrip = (value: unknown) =>
+  richTransformer.deserialize(JSON.parse(JSON.stringify(richTransformer.serialize(value))))
+
+describe('richTransformer', () => {
+  it('should round trip top-level rich values', () => {
+    const date = new Date('2024-01-02T03:04:05.000Z')
+
+    expect(roundTrip(date)).toEqual(date)
+    expect(roundTrip(10n ** 20n)).toBe(10n ** 20n)
+    expect(roundTrip(undefined)).toBeUndefined()
+    expect(roundTrip('plain')).toBe('plain')
+  })
+
+  it('should restore rich values nested in containers', () => {
+    const value = {
+      createdAt: new Date(0),
+      tags: new Set(['a', 'b']),
+      scores: new Map<string, unknown>([
+        ['x', 1n],
+        ['y', new Set([new Date(1)])],
+      ]),
+      list: [undefined, { at: new Date(2) }],
+      missing: undefined,
+    }
+
+    const out = roundTrip(value) as typeof value
+
+    expect(out).toEqual(value)
+    expect(out.scores.get('y')).toBeInstanceOf(Set)
+    expect([...(out.scores.get('y') as Set<Date>)][0]).toBeInstanceOf(Date)
+    expect('missing' in out).toBe(true)
+  })
+
+  it('should pass plain JSON through without meta', () => {
+    expect(richTransformer.serialize({ a: [1, 'b'] })).toEqual({ json: { a: [1, 'b'] } })
+    expect(richTransformer.deserialize({ a: 1 })).toEqual({ a: 1 })
+  })
+
+  it('should ignore meta paths that reach outside own properties', () => {
+    const payload = { json: {}, meta: [[['__proto__', 'polluted'], 'Set']] }
+
+    richTransformer.deserialize(payload)
+
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined()
+  })
+})
+
+describe('deserializeResults', () => {
+  it('should restore result data and declared error data in batches', () => {
+    const wire = JSON.parse(
+      JSON.stringify([
+        R.ok(richTransformer.serialize({ at: new Date(5) }), 'RPC_OK'),
+        { ok: false, code: 'RPC_X', error: { code: 'RPC_X', message: 'x', data: richTransformer.serialize(3n) } },
+      ]),
+    )
+
+    const [ok, err] = deserializeResults(wire, richTransformer) as [any, any]
+
+    expect(ok.data.at).toEqual(new Date(5))
+    expect(err.error.data).toBe(3n)
+  })
+
+  it('should leave bodies alone without a transformer', () => {
+    const body = { ok: true, data: { json: 1 } }
+    expect(deserializeResults(body, undefined)).toBe(body)
+  })
+})
+
+describe('deserializeInput', () => {
+  it('should reject malformed payloads as bad requests', () => {
+    expect(() => deserializeInput(richTransformer, { json: 'nope', meta: [[[], 'bigint']] })).toThrow(
+      expect.objectContaining({ code: 'RPC_BAD_REQUEST', message: 'Invalid input encoding' }),
+    )
+  })
+})
@@ -1,8 +1,27 @@
 import { Decoder, Encoder } from 'cbor-x'
+import { Packr } from 'msgpackr'
 
 export const CBOR_CONTENT_TYPE = 'application/cbor'
+export const MSGPACK_CONTENT_TYPE = 'application/msgpack'
+export const JSON_CONTENT_TYPE = 'application/json'
 
-export type ResponseFormat = 'json' | 'cbor'
+/** Name of a registered codec. `json`, `cbor` and `msgpack` are built in. */
+export type ResponseFormat = 'json' | 'cbor' | 'msgpack' | (string & {})
+
+/**
+ * A wire format for request and response bodies.
+ * Codecs whose `encode` returns a string travel as WebSocket text frames, the rest as binary frames.
+ */
+export type Codec = {
+  /** Name clients select the codec by, ex: `cbor`. */
+  format: ResponseFormat
+  /** Content type sent with encoded bodies and matched against `Accept`. */
+  contentType: string
+  encode: (value: unknown) => string | Uint8Array
+  decode: (data: string | Uint8Array) => unknown
+  /** Whether a body with this content type can be decoded, ex: to accept vendor content types. */
+  canDecode: (contentType: string) => boolean
+}
 
 // Shared CBOR encoder instance.
 // Reusing the encoder lets cbor-x learn and reuse object shapes (useRecords),
@@ -20,34 +39,141 @@ const cborDecoder = new Decoder({
   mapsAsObjects: true,
 })
 
+// Shared MessagePack packer.
+// Records are a msgpackr extension other MessagePack implementations cannot read, so objects stay plain maps.
+const msgpackPackr = new Packr({
+  useRecords: false,
+  mapsAsObjects: true,
+})
+
+const textDecoder = new TextDecoder()
+
+/** Built-in JSON codec, also used for bodies no registered codec claims. */
+export const jsonCodec: Codec = {
+  format: 'json',
+  contentType: JSON_CONTENT_TYPE,
+  encode: (value) => JSON.stringify(value),
+  decode: (data) => JSON.parse(typeof data === 'string' ? data : textDecoder.decode(data)),
+  canDecode: (contentType) => {
+    const type = mediaType(contentType)
+    return type === JSON_CONTENT_TYPE || type.endsWith('+json')
+  },
+}
+
+/** Built-in CBOR codec. */
+export const cborCodec: Codec = {
+  format: 'cbor',
+  contentType: CBOR_CONTENT_TYPE,
+  // Each message still gets its own encoded bytes; we only reuse the encoder,
+  // never the output buffer, to avoid corrupting in-flight responses.
+  encode: (value) => cborEncoder.encode(value) as Uint8Array,
+  // Binary codecs are only handed bytes.
+  decode: (data) => cborDecoder.decode(data as Uint8Array),
+  canDecode: (contentType) => mediaType(contentType) === CBOR_CONTENT_TYPE,
+}
+
+/** Built-in MessagePack codec. Also reads the legacy `application/x-msgpack` content type. */
+export const msgpackCodec: Codec = {
+  format: 'msgpack',
+  contentType: MSGPACK_CONTENT_TYPE,
+  encode: (value) => msgpackPackr.pack(value),
+  decode: (data) => msgpackPackr.unpack(data as Uint8Array),
+  canDecode: (contentType) => {
+    const type = mediaType(contentType)
+    return type === MSGPACK_CONTENT_TYPE || type === 'application/x-msgpack'
+  },
+}
+
+export const DEFAULT_CODECS: readonly Codec[] = Object.freeze([jsonCodec, cborCodec, msgpackCodec])
+
+/** Registry of custom codecs followed by the built-ins; a custom codec replaces a built-in with the same format. */
+export function resolveCodecs(codecs?: readonly Codec[]): readonly Codec[] {
+  if (!codecs?.length) return DEFAULT_CODECS
+  const formats = new Set(codecs.map((codec) => codec.format))
+  return [...codecs, ...DEFAULT_CODECS.filter((codec) => !formats.has(codec.format))]
+}
+
+/** Codec registered under `format`. Throws for unknown formats, which are configuration mistakes. */
+export function getCodec(format: ResponseFormat, codecs: readonly Codec[] = DEFAULT_CODECS): Codec {
+  const codec = codecs.find((c) => c.format === format)
+  if (!codec) throw new Error(`No codec registered for format "${format}"`)
+  return codec
+}
+
+/** First codec that can decode `contentType`. */
+export function findCodec(
+  contentType: string | null | undefined,
+  codecs: readonly Codec[] = DEFAULT_CODECS,
+): Codec | undefined {
+  if (!contentType) return undefined
+  return codecs.find((codec) => codec.canDecode(contentType))
+}
+
+/** Codec for a request body; bodies no codec claims are read as JSON. */
+export function requestCodec(contentType: string | null | undefined, codecs: readonly Codec[] = DEFAULT_CODECS): Codec {
+  return findCodec(contentType, codecs) ?? getCodec('json', codecs)
+}
+
 /** Minimal body reader interface for decoding request bodies. */
 export type BodyReader = {
   /** Read and parse a JSON body. */
   json: () => Promise<unknown>
-  /** Read raw body bytes for CBOR decoding. */
+  /** Read raw body bytes for binary codecs. */
   arrayBuffer: () => Promise<ArrayBuffer>
 }
 
-/** Decode JSON or CBOR request bodies using a content-type hint. */
+/** Decode a request body with the codec matching its content type. */
 export async function decodeRequestBody(
   contentType: string | null | undefined,
   reader: BodyReader,
+  codecs: readonly Codec[] = DEFAULT_CODECS,
 ): Promise<{ body: unknown; format: ResponseFormat }> {
-  if (isCborContentType(contentType)) {
-    const buf = await reader.arrayBuffer()
-    // Each request still has its own buffer; only the decoder instance is reused.
-    return { body: cborDecoder.decode(new Uint8Array(buf)), format: 'cbor' }
+  const codec = requestCodec(contentType, codecs)
+  if (codec === jsonCodec) {
+    // Let frameworks parse JSON themselves; they may already have the body cached.
+    const body = await reader.json().catch(() => null)
+    return { body, format: 'json' }
   }
 
-  const body = await reader.json().catch(() => null)
-  return { body, format: 'json' }
+  // Each request still has its own buffer; only the decoder instances are reused.
+  const buf = await reader.arrayBuffer()
+  return { body: codec.decode(new Uint8Array(buf)), format: codec.format }
+}
+
+/**
+ * Negotiate the response format (RFC 9110 section 12.5.1).
+ * With an `Accept` header, picks the codec with the highest q-value, weighing each codec by the most specific
+ * matching media range; ties go to the more specific range, then the earlier range, then registry order.
+ * Without one, the request body's codec is used, then JSON.
+ * Returns `undefined` when `Accept` rules out every codec.
+ */
+export function negotiateResponseFormat(
+  req: Request,
+  codecs: readonly Codec[] = DEFAULT_CODECS,
+): ResponseFormat | undefined {
+  const accept = req.headers.get('accept')
+  if (!accept?.trim()) return findCodec(req.headers.get('content-type'), codecs)?.format ?? 'json'
+
+  const ranges = parseAccept(accept)
+  let best: (RangeMatch & { format: ResponseFormat }) | undefined
+  for (const codec of codecs) {
+    const match = matchMediaRange(codec.contentType, ranges)
+    if (!match || match.q <= 0) continue
+    if (
+      !best ||
+      match.q > best.q ||
+      (match.q === best.q &&
+        (match.specificity > best.specificity || (match.specificity === best.specificity && match.index < best.index)))
+    ) {
+      best = { ...match, format: codec.format }
+    }
+  }
+  return best?.format
 }
 
-export function resolveResponseFormat(req: Request): ResponseFormat {
-  const accept = req.headers.get('accept')?.toLowerCase()
-  if (accept?.includes(CBOR_CONTENT_TYPE)) return 'cbor'
-  if (isCborContentType(req.headers.get('content-type'))) return 'cbor'
-  return 'json'
+/** Negotiate the response format, falling back to JSON when `Accept` rules out every codec. */
+export function resolveResponseFormat(req: Request, codecs: readonly Codec[] = DEFAULT_CODECS): ResponseFormat {
+  return negotiateResponseFormat(req, codecs) ?? 'json'
 }
 
 export function serializeResponse(
@@ -55,28 +181,101 @@ export function serializeResponse(
   status: number,
   headers: Record<string, string>,
   format: ResponseFormat,
+  codecs: readonly Codec[] = DEFAULT_CODECS,
 ): Response {
-  if (format === 'cbor') {
-    // Each response still gets its own encoded bytes; we only reuse the encoder,
-    // never the output buffer, to avoid corrupting in-flight responses.
-    const encoded = cborEncoder.encode(body) as Buffer<ArrayBuffer>
-    return new Response(encoded, {
-      status,
-      headers: withContentType(headers, CBOR_CONTENT_TYPE),
-    })
-  }
-
-  return new Response(JSON.stringify(body), {
+  const codec = getCodec(format, codecs)
+  return new Response(codec.encode(body) as BodyInit, {
     status,
-    headers: withContentType(headers, 'application/json'),
+    headers: withContentType(headers, codec.contentType),
   })
 }
 
+/** Encode a message for a message-based transport with the codec registered under `format`. */
+export function encodeMessage(
+  body: unknown,
+  format: ResponseFormat,
+  codecs: readonly Codec[] = DEFAULT_CODECS,
+): string | Uint8Array {
+  return getCodec(format, codecs).encode(body)
+}
+
+/** Decode a transport message; text frames are JSON and binary frames use `binaryCodec` (CBOR by default). */
+export function decodeMessage(
+  data: string | ArrayBuffer | ArrayBufferView,
+  binaryCodec: Codec = cborCodec,
+): { body: unknown; format: ResponseFormat } {
+  if (typeof data === 'string') return { body: JSON.parse(data), format: 'json' }
+  const bytes = ArrayBuffer.isView(data)
+    ? new Uint8Array(data.buffer, data.byteOffset, data.byteLength)
+    : new Uint8Array(data)
+  return { body: binaryCodec.decode(bytes), format: binaryCodec.format }
+}
+
 export function isCborContentType(contentType: string | null | undefined): boolean {
-  if (!contentType) return false
-  return contentType.split(';', 1)[0]?.trim().toLowerCase() === CBOR_CONTENT_TYPE
+  return !!contentType && cborCodec.canDecode(contentType)
 }
 
 export function withContentType(headers: Record<string, string>, contentType: string): Record<string, string> {
   return { ...headers, 'content-type': contentType }
 }
+
+/** The `q` parameter among `params` (ex: `[' q=0.5']`), 1 when absent and `NaN` when malformed. */
+export function parseQValue(params: string[]): number {
+  let q = 1
+  for (const param of params) {
+    const [key, value = ''] = param.split('=', 2)
+    if (key?.trim().toLowerCase() !== 'q') continue
+    q = /^(0(\.\d{0,3})?|1(\.0{0,3})?)$/.test(value.trim()) ? Number(value) : Number.NaN
+  }
+  return q
+}
+
+/** How `accept` matches `contentType` through its most specific range, `undefined` when no range matches. */
+export function matchAccept(accept: string, contentType: string): RangeMatch | undefined {
+  return matchMediaRange(contentType, parseAccept(accept))
+}
+
+/** 2 when `range` names the type exactly, 1 for `type/*`, 0 for any type, -1 when it does not match. */
+function rangeSpecificity(range: MediaRange, type: string | undefined, subtype: string | undefined): number {
+  if (range.type === '*') return 0
+  if (range.type !== type) return -1
+  if (range.subtype === subtype) return 2
+  return range.subtype === '*' ? 1 : -1
+}
+
+/** `Application/CBOR; charset=x` -> `application/cbor`. */
+function mediaType(contentType: string): string {
+  return contentType.split(';', 1)[0]?.trim().toLowerCase() ?? ''
+}
+
+/** One media range of an `Accept` header. */
+type MediaRange = { type: string; subtype: string; q: number; index: number }
+
+/** How a media range matched a content type; see {@link rangeSpecificity}. */
+export type RangeMatch = { q: number; specificity: number; index: number }
+
+/** Parse an `Accept` header into media ranges. Malformed ranges and q-values are skipped. */
+function parseAccept(header: string): MediaRange[] {
+  const ranges: MediaRange[] = []
+  header.split(',').forEach((part, index) => {
+    const [range = '', ...params] = part.split(';')
+    const [type, subtype, extra] = range.trim().toLowerCase().split('/')
+    if (!type || !subtype || extra !== undefined || (type === '*' && subtype !== '*')) return
+
+    const q = parseQValue(params)
+    if (!Number.isNaN(q)) ranges.push({ type, subtype, q, index })
+  })
+  return ranges
+}
+
+/** The most specific range matching `contentType`, which decides its q-value. */
+function matchMediaRange(contentType: string, ranges: MediaRange[]): RangeMatch | undefined {
+  const [type, subtype] = mediaType(contentType).split('/')
+  let best: RangeMatch | undefined
+  for (const range of ranges) {
+    const specificity = rangeSpecificity(range, type, subtype)
+    if (specificity < 0 || (best && specificity <= best.specificity)) continue
+    best = { q: range.q, specificity, index: range.index }
+  }
+  return best
+}
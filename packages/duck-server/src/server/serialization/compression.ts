@@ -0,0 +1,178 @@
+import { parseQValue } from './codec'
+
+/** Content codings, in `Content-Encoding` spelling. */
+export type CompressionEncoding = 'br' | 'zstd' | 'gzip' | 'deflate'
+
+/** Compress a whole body, ex: `(data) => zlib.brotliCompressSync(data)` where `CompressionStream` lacks brotli. */
+export type Compressor = (data: Uint8Array) => Uint8Array | Promise<Uint8Array>
+
+/** Response compression options. */
+export type CompressionOptions = {
+  /** Bodies smaller than this many bytes are sent uncompressed, default: 1024. */
+  threshold?: number
+  /** Encodings in server preference order, default: br, zstd, gzip, deflate. Unavailable ones are skipped. */
+  encodings?: CompressionEncoding[]
+  /** Compressors for encodings the runtime's `CompressionStream` does not support. */
+  compressors?: Partial<Record<CompressionEncoding, Compressor>>
+}
+
+/**
+ * Procedure meta read by the HTTP handler. `compression: false` sends the procedure's responses uncompressed,
+ * ex: already compressed payloads, or secrets reflected next to user input (BREACH).
+ */
+export type CompressionMeta = { compression?: boolean }
+
+const DEFAULT_ENCODINGS: CompressionEncoding[] = ['br', 'zstd', 'gzip', 'deflate']
+const DEFAULT_THRESHOLD = 1024
+
+// `CompressionStream` format names; brotli and zstd are only available in some runtimes.
+const STREAM_FORMATS: Record<CompressionEncoding, string> = {
+  br: 'brotli',
+  zstd: 'zstd',
+  gzip: 'gzip',
+  deflate: 'deflate',
+}
+
+const streamSupport = new Map<string, boolean>()
+
+/** Encodings this server can apply, in preference order. */
+export function availableEncodings(options: CompressionOptions = {}): CompressionEncoding[] {
+  return (options.encodings ?? DEFAULT_ENCODINGS).filter(
+    (encoding) => !!options.compressors?.[encoding] || supportsStream('compress', encoding),
+  )
+}
+
+/**
+ * Pick a content coding from `Accept-Encoding` (RFC 9110 section 12.5.3).
+ * The highest q-value wins and ties go to the server's order. `undefined` means identity.
+ */
+export function negotiateEncoding(
+  header: string | null | undefined,
+  available: readonly CompressionEncoding[],
+): CompressionEncoding | undefined {
+  if (!header) return undefined
+
+  const weights = new Map<string, number>()
+  for (const part of header.split(',')) {
+    const [token = '', ...params] = part.split(';')
+    const name = token.trim().toLowerCase()
+    const q = parseQValue(params)
+    if (name && !Number.isNaN(q)) weights.set(name === 'x-gzip' ? 'gzip' : name, q)
+  }
+
+  let best: CompressionEncoding | undefined
+  let bestQ = 0
+  for (const encoding of available) {
+    const q = weights.get(encoding) ?? weights.get('*') ?? 0
+    if (q > bestQ) {
+      best = encoding
+      bestQ = q
+    }
+  }
+  return best
+}
+
+/** Compress `data` with a custom compressor or the runtime's `CompressionStream`. */
+export async function compressBody(
+  data: Uint8Array,
+  encoding: CompressionEncoding,
+  compressors?: CompressionOptions['compressors'],
+): Promise<Uint8Array> {
+  const custom = compressors?.[encoding]
+  if (custom) return custom(data)
+  return pipeBytes(data, new CompressionStream(STREAM_FORMATS[encoding] as CompressionFormat))
+}
+
+/**
+ * Compress a serialized response with `encoding` once it reaches the size threshold.
+ * Event streams and responses that already carry a `Content-Encoding` pass through.
+ */
+export async function compressResponse(
+  res: Response,
+  encoding: CompressionEncoding | undefined,
+  options: CompressionOptions = {},
+): Promise<Response> {
+  const contentType = res.headers.get('content-type') ?? ''
+  if (!res.body || res.headers.has('content-encoding') || contentType.startsWith('text/event-stream')) return res
+
+  // The body depends on Accept-Encoding even when it is sent as is.
+  res.headers.append('vary', 'accept-encoding')
+  if (!encoding) return res
+
+  const body = new Uint8Array(await res.arrayBuffer())
+  const headers = new Headers(res.headers)
+  if (body.byteLength < (options.threshold ?? DEFAULT_THRESHOLD)) {
+    return new Response(body, { status: res.status, headers })
+  }
+
+  headers.set('content-encoding', encoding)
+  const compressed = await compressBody(body, encoding, options.compressors)
+  return new Response(compressed as BodyInit, { status: res.status, headers })
+}
+
+/** `Accept-Encoding` value listing the encodings `DecompressionStream` handles here, ex: `gzip, deflate`. */
+export function acceptEncoding(): string {
+  return DEFAULT_ENCODINGS.filter((encoding) => supportsStream('decompress', encoding)).join(', ')
+}
+
+/**
+ * Read a response body, undoing a `Content-Encoding` the fetch implementation left in place.
+ * Native fetch decodes bodies itself but keeps the header, so bodies are only decoded when they still look encoded.
+ */
+export async function readResponseBody(res: Response): Promise<Uint8Array> {
+  const bytes = new Uint8Array(await res.arrayBuffer())
+  const encoding = res.headers.get('content-encoding')?.trim().toLowerCase()
+  if (!isCompressionEncoding(encoding) || !looksEncoded(encoding, bytes)) return bytes
+  if (!supportsStream('decompress', encoding)) return bytes
+
+  try {
+    return await pipeBytes(bytes, new DecompressionStream(STREAM_FORMATS[encoding] as CompressionFormat))
+  } catch (error) {
+    // Brotli has no magic number to sniff, so a body that fails to decode was already decoded.
+    if (encoding === 'br') return bytes
+    throw error
+  }
+}
+
+/** Whether the runtime's `CompressionStream` or `DecompressionStream` handles `encoding`. */
+function supportsStream(kind: 'compress' | 'decompress', encoding: CompressionEncoding): boolean {
+  const key = `${kind}:${encoding}`
+  let supported = streamSupport.get(key)
+  if (supported === undefined) {
+    try {
+      const format = STREAM_FORMATS[encoding] as CompressionFormat
+      if (kind === 'compress') new CompressionStream(format)
+      else new DecompressionStream(format)
+      supported = true
+    } catch {
+      supported = false
+    }
+    streamSupport.set(key, supported)
+  }
+  return supported
+}
+
+/** Check the format's magic bytes: gzip `1f 8b`, zstd `28 b5 2f fd`, a zlib header for deflate. */
+function looksEncoded(encoding: CompressionEncoding, bytes: Uint8Array): boolean {
+  const [b0 = 0, b1 = 0, b2 = 0, b3 = 0] = bytes
+  switch (encoding) {
+    case 'gzip':
+      return b0 === 0x1f && b1 === 0x8b
+    case 'zstd':
+      return b0 === 0x28 && b1 === 0xb5 && b2 === 0x2f && b3 === 0xfd
+    case 'deflate':
+      return (b0 & 0x0f) === 8 && ((b0 << 8) | b1) % 31 === 0
+    case 'br':
+      return bytes.length > 0
+  }
+}
+
+function isCompressionEncoding(value: string | undefined): value is CompressionEncoding {
+  return value !== undefined && Object.hasOwn(STREAM_FORMATS, value)
+}
+
+/** Run bytes through a (de)compression stream and collect the output. */
+async function pipeBytes(data: Uint8Array, transform: TransformStream<BufferSource, Uint8Array>): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
@@ -0,0 +1,3 @@
+export * from './codec'
+export * from './compression'
+export * from './transformer'
@@ -0,0 +1,156 @@
+import { createRPCError } from '../core/error'
+import type { RPCResType } from '../core/response'
+import type { ResponseFormat } from './codec'
+
+/**
+ * Turns values JSON cannot represent into plain data and back.
+ * Server and client must use the same transformer. It applies to inputs and result `data` in every body format but
+ * CBOR, which carries `Date`, `Map`, `Set`, `BigInt` and `undefined` as native tags. MessagePack drops `Map` and `Set`.
+ */
+export type DataTransformer = {
+  serialize: (value: unknown) => unknown
+  deserialize: (value: unknown) => unknown
+}
+
+/** Types restored by {@link richTransformer}. */
+export type RichType = 'Date' | 'Map' | 'Set' | 'bigint' | 'undefined'
+
+/** Wire shape of {@link richTransformer}: plain JSON plus the path and type of every rich value. */
+export type RichPayload = {
+  json: unknown
+  meta?: [path: (string | number)[], type: RichType][]
+}
+
+/**
+ * Transformer for `Date`, `Map`, `Set`, `BigInt` and `undefined`, ex: `{ transformer: richTransformer }`.
+ * Class instances other than these are sent as plain JSON.
+ */
+export const richTransformer: DataTransformer = {
+  serialize: (value) => {
+    const meta: NonNullable<RichPayload['meta']> = []
+    const json = toRichJSON(value, [], meta)
+    return meta.length ? { json, meta } : { json }
+  },
+  deserialize: (value) => {
+    if (!isRecord(value) || !('json' in value)) return value
+    const { json, meta } = value as RichPayload
+    if (!Array.isArray(meta)) return json
+    return restoreRich(json, meta)
+  },
+}
+
+/** Whether bodies in `format` go through the transformer: all but CBOR, which keeps rich types itself. */
+export function usesTransformer(format: ResponseFormat): boolean {
+  return format !== 'cbor'
+}
+
+/** Apply a transformer to the data a result carries: `data` on success, `error.data` on declared errors. */
+export function transformResult(res: RPCResType<unknown>, fn: (value: unknown) => unknown): RPCResType<unknown> {
+  if (res.ok) return { ...res, data: fn(res.data) }
+  if (res.error.data === undefined) return res
+  return { ...res, error: { ...res.error, data: fn(res.error.data) } }
+}
+
+/** Restore the data of a received result, or of every result in a batch; other bodies pass through. */
+export function deserializeResults(body: unknown, transformer: DataTransformer | undefined): unknown {
+  if (!transformer) return body
+  if (Array.isArray(body)) return body.map((item) => deserializeResults(item, transformer))
+  if (!isRecord(body) || typeof body.ok !== 'boolean') return body
+  return transformResult(body as RPCResType<unknown>, transformer.deserialize)
+}
+
+/** Run a transformer over a received input; malformed payloads are the client's fault. */
+export function deserializeInput(transformer: DataTransformer, rawInput: unknown): unknown {
+  try {
+    return transformer.deserialize(rawInput)
+  } catch (error) {
+    throw createRPCError({ code: 'RPC_BAD_REQUEST', message: 'Invalid input encoding', cause: error })
+  }
+}
+
+/** Convert rich values to JSON, recording where each one was. */
+function toRichJSON(value: unknown, path: (string | number)[], meta: NonNullable<RichPayload['meta']>): unknown {
+  if (value === undefined) {
+    meta.push([path, 'undefined'])
+    return null
+  }
+  if (typeof value === 'bigint') {
+    meta.push([path, 'bigint'])
+    return value.toString()
+  }
+  if (value instanceof Date) {
+    meta.push([path, 'Date'])
+    return Number.isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()
+  }
+  if (value instanceof Map) {
+    meta.push([path, 'Map'])
+    return [...value].map(([k, v], i) => [toRichJSON(k, [...path, i, 0], meta), toRichJSON(v, [...path, i, 1], meta)])
+  }
+  if (value instanceof Set) {
+    meta.push([path, 'Set'])
+    return [...value].map((v, i) => toRichJSON(v, [...path, i], meta))
+  }
+  if (Array.isArray(value)) return value.map((v, i) => toRichJSON(v, [...path, i], meta))
+  if (isPlainObject(value)) {
+    const out: Record<string, unknown> = {}
+    for (const key of Object.keys(value)) out[key] = toRichJSON(value[key], [...path, key], meta)
+    return out
+  }
+  return value
+}
+
+/** Restore rich values in place, deepest paths first so containers are rebuilt from restored entries. */
+function restoreRich(json: unknown, meta: unknown[]): unknown {
+  let root = json
+  const entries = meta.filter(isMetaEntry).sort(([a], [b]) => b.length - a.length)
+
+  for (const [path, type] of entries) {
+    if (!path.length) {
+      root = restoreValue(root, type)
+      continue
+    }
+    // Only follow own properties, so crafted paths cannot reach prototypes.
+    let parent: unknown = root
+    for (const key of path.slice(0, -1)) {
+      parent = isRecord(parent) && Object.hasOwn(parent, key) ? parent[key] : undefined
+    }
+    const last = path[path.length - 1] as string | number
+    if (isRecord(parent) && Object.hasOwn(parent, last)) parent[last] = restoreValue(parent[last], type)
+  }
+  return root
+}
+
+/** Rebuild one rich value from its JSON form. */
+function restoreValue(value: unknown, type: RichType): unknown {
+  switch (type) {
+    case 'undefined':
+      return undefined
+    case 'bigint':
+      return BigInt(value as string)
+    case 'Date':
+      return new Date(value as string)
+    case 'Map':
+      return new Map(value as [unknown, unknown][])
+    case 'Set':
+      return new Set(value as unknown[])
+  }
+}
+
+const RICH_TYPES = new Set<string>(['Date', 'Map', 'Set', 'bigint', 'undefined'])
+
+/** Narrow a decoded meta entry to a `[path, type]` pair. */
+function isMetaEntry(x: unknown): x is [(string | number)[], RichType] {
+  return Array.isArray(x) && Array.isArray(x[0]) && typeof x[1] === 'string' && RICH_TYPES.has(x[1])
+}
+
+/** Narrow unknown values to indexable objects. */
+function isRecord(v: unknown): v is Record<string | number, unknown> {
+  return typeof v === 'object' && v !== null
+}
+
+/** Objects created by literals or `Object.create(null)`. */
+function isPlainObject(v: unknown): v is Record<string, unknown> {
+  if (!isRecord(v)) return false
+  const proto = Object.getPrototypeOf(v)
+  return proto === Object.prototype || proto === null
+}